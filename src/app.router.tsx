@@ -10,10 +10,13 @@ import { AdminCalibrationPage } from "./modules/Admin/admin-calibration.page";
 import { AdminHistoryPage } from "./modules/Admin/admin-history.page";
 import { AdminAlertsPage } from "./modules/Admin/admin-alerts.page";
 import { AdminUsersPage } from "./modules/Admin/admin-users.page";
+import { AdminFirmwarePage } from "./modules/Admin/admin-firmware.page";
+import { AdminChecklistPage } from "./modules/Admin/admin-checklist.page";
 import { DoctorDashboardPage } from "./modules/Doctor/doctor-dashboard.page";
 import { DoctorPatientsPage } from "./modules/Doctor/doctor-patients.page";
 import { DoctorTreatmentNewPage } from "./modules/Doctor/doctor-treatment-new.page";
 import { DoctorTreatmentHistoryPage } from "./modules/Doctor/doctor-treatment-history.page";
+import { DoctorCalendarPage } from "./modules/Doctor/doctor-calendar.page";
 
 export const router = createBrowserRouter([
   { path: "/login", element: <LoginPage /> },
@@ -32,6 +35,8 @@ export const router = createBrowserRouter([
       { path: "admin/history", element: <AdminHistoryPage /> },
       { path: "admin/alerts", element: <AdminAlertsPage /> },
       { path: "admin/users", element: <AdminUsersPage /> },
+      { path: "admin/firmware", element: <AdminFirmwarePage /> },
+      { path: "admin/checklist", element: <AdminChecklistPage /> },
       { path: "doctor/dashboard", element: <DoctorDashboardPage /> },
       { path: "doctor/patients", element: <DoctorPatientsPage /> },
       { path: "doctor/treatments/new", element: <DoctorTreatmentNewPage /> },
@@ -39,6 +44,7 @@ export const router = createBrowserRouter([
         path: "doctor/treatments/history",
         element: <DoctorTreatmentHistoryPage />,
       },
+      { path: "doctor/calendar", element: <DoctorCalendarPage /> },
     ],
   },
   { path: "*", element: <NotFoundPage /> },
@@ -24,10 +24,13 @@ export const Header: React.FC = () => {
           { name: "Historial", href: "/admin/history" },
           { name: "Alertas", href: "/admin/alerts" },
           { name: "Usuarios", href: "/admin/users" },
+          { name: "Firmware", href: "/admin/firmware" },
+          { name: "Checklist", href: "/admin/checklist" },
         ]
       : [
           { name: "Panel", href: "/doctor/dashboard" },
           { name: "Pacientes", href: "/doctor/patients" },
+          { name: "Agenda", href: "/doctor/calendar" },
           { name: "Nuevo tratamiento", href: "/doctor/treatments/new" },
           {
             name: "Historial tratamientos",
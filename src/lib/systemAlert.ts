@@ -0,0 +1,14 @@
+import axios from "@/lib/axios";
+
+// Alertas que aparecen en AdminAlertsPage hasta que alguien las resuelve
+export type SystemAlertSeverity = "info" | "warn" | "critical";
+
+// Con `dedupeKey` el backend no duplica una alerta abierta con la misma clave
+// (p. ej. varias pestañas viendo el mismo tratamiento)
+export async function raiseSystemAlert(
+  severity: SystemAlertSeverity,
+  message: string,
+  dedupeKey?: string,
+): Promise<void> {
+  await axios.post("/alerts", { severity, message, dedupeKey });
+}
@@ -0,0 +1,12 @@
+import axios from "@/lib/axios";
+
+// Eventos que se suman a los logs del sistema (ver AdminHistoryPage)
+export type SystemLogLevel = "info" | "warn" | "error";
+
+export async function logSystemEvent(
+  level: SystemLogLevel,
+  source: string,
+  message: string,
+): Promise<void> {
+  await axios.post("/logs", { level, source, message });
+}
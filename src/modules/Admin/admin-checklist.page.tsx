@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { checklistStore } from "@/modules/Checklist/data/checklist.store";
+import { DEFAULT_CHECKLIST } from "@/modules/Checklist/checklist.evaluation";
+import type { ChecklistItem, ChecklistSeverity } from "@/modules/Checklist/checklist.interface";
+
+export function AdminChecklistPage() {
+  const { items, usingDefaults, isLoading, error, fetchConfig, save } = checklistStore();
+  const [draft, setDraft] = useState<ChecklistItem[]>([]);
+
+  useEffect(() => {
+    void fetchConfig();
+  }, [fetchConfig]);
+
+  useEffect(() => {
+    setDraft(items);
+  }, [items]);
+
+  const update = (id: string, patch: Partial<ChecklistItem>) =>
+    setDraft((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  const add = () =>
+    setDraft((current) => [
+      ...current,
+      { id: `custom_${Date.now()}`, label: "", help: null, severity: "caution", enabled: true },
+    ]);
+
+  const remove = (id: string) => setDraft((current) => current.filter((item) => item.id !== id));
+
+  const noneEnabled = draft.length > 0 && !draft.some((item) => item.enabled);
+  const valid =
+    draft.length > 0 && !noneEnabled && draft.every((item) => item.label.trim() !== "");
+  const changed = JSON.stringify(draft) !== JSON.stringify(items);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-semibold">Checklist de seguridad</h2>
+      <Card>
+        <CardHeader>
+          <CardTitle>Preguntas previas al tratamiento</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Cada pregunta se responde Si/No antes de iniciar; "Si" indica riesgo. Un "Si" en una
+            contraindicacion absoluta bloquea el inicio salvo justificacion. Use {"{zona}"} para
+            nombrar la zona tratada.
+          </p>
+          {error && !isLoading && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-red-500">
+                No se pudo leer la configuracion guardada ({error}). Guardar queda deshabilitado
+                para no reemplazarla con la lista predeterminada.
+              </p>
+              <Button variant="outline" onClick={() => void fetchConfig()}>
+                Reintentar
+              </Button>
+            </div>
+          )}
+          {usingDefaults && !error && !isLoading && (
+            <p className="text-sm text-amber-500">
+              No hay configuracion guardada: se aplica la lista predeterminada.
+            </p>
+          )}
+
+          {draft.map((item) => (
+            <div key={item.id} className="grid gap-2 rounded border p-3 md:grid-cols-[1fr_1fr_160px_auto_auto]">
+              <Input
+                placeholder="Pregunta"
+                value={item.label}
+                onChange={(e) => update(item.id, { label: e.target.value })}
+              />
+              <Input
+                placeholder="Ayuda (opcional)"
+                value={item.help ?? ""}
+                onChange={(e) => update(item.id, { help: e.target.value || null })}
+              />
+              <select
+                className="h-10 rounded-md border bg-background px-3"
+                value={item.severity}
+                onChange={(e) => update(item.id, { severity: e.target.value as ChecklistSeverity })}
+              >
+                <option value="hard">Absoluta</option>
+                <option value="caution">Precaucion</option>
+              </select>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={item.enabled}
+                  onChange={(e) => update(item.id, { enabled: e.target.checked })}
+                />
+                Activa
+              </label>
+              <Button variant="outline" onClick={() => remove(item.id)}>
+                Quitar
+              </Button>
+            </div>
+          ))}
+
+          {noneEnabled && (
+            <p className="text-sm text-amber-500">Active al menos una pregunta para poder guardar.</p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={add}>Agregar pregunta</Button>
+            <Button variant="outline" onClick={() => setDraft(DEFAULT_CHECKLIST)}>
+              Restaurar predeterminadas
+            </Button>
+            <Button
+              disabled={!!error || isLoading || !valid || (!changed && !usingDefaults)}
+              onClick={() => void save(draft)}
+            >
+              Guardar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import axios from "@/lib/axios";
+import {
+  telemetryStore,
+  useLiveTelemetry,
+} from "@/modules/Telemetry/data/telemetry.store";
+import {
+  deviceStateMeta,
+  formatMeasurement,
+  formatSeconds,
+  historyChartData,
+} from "@/modules/Telemetry/deviceState";
+import { TelemetryIssueAlert } from "@/modules/Telemetry/telemetryIssueAlert";
 import { toast } from "sonner";
 import {
   Area,
@@ -13,7 +24,7 @@ import {
 } from "recharts";
 
 export function AdminControlPage() {
-  const [status, setStatus] = useState<any>(null);
+  const { data: status, issue } = useLiveTelemetry("mqtt");
   const [pulseMs, setPulseMs] = useState(500);
 
   const sendManual = async (
@@ -22,8 +33,7 @@ export function AdminControlPage() {
   ) => {
     try {
       await axios.post("/device/manual-command", { command, payload });
-      const res = await axios.get("/mqtt/status");
-      setStatus(res.data);
+      await telemetryStore.getState().refresh("mqtt");
       toast.success(`Comando ${command} enviado`);
     } catch (error) {
       console.error(error);
@@ -31,26 +41,13 @@ export function AdminControlPage() {
     }
   };
 
-  useEffect(() => {
-    const load = async () => {
-      const res = await axios.get("/mqtt/status");
-      setStatus(res.data);
-    };
-    void load();
-    const timer = setInterval(() => void load(), 2000);
-    return () => clearInterval(timer);
-  }, []);
-
-  const history =
-    status?.history?.map((item: any, idx: number) => ({
-      idx,
-      pressure: Number(item.pressureKpa ?? 0),
-      temp: Number(item.temperatureC ?? 0),
-    })) ?? [];
+  const device = status?.status;
+  const history = historyChartData(status?.history ?? []);
 
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-semibold tracking-tight">Control manual del sistema</h2>
+      <TelemetryIssueAlert issue={issue} />
 
       <div className="grid gap-4 lg:grid-cols-2">
         <Card className="border-cyan-200/30 bg-gradient-to-br from-card to-card/70">
@@ -97,44 +94,44 @@ export function AdminControlPage() {
           <CardContent className="space-y-3 text-sm">
             <div className="flex items-center justify-between border-b border-border pb-2">
               <span className="text-muted-foreground">Estado</span>
-              <span className="rounded-full bg-cyan-500/15 px-2 py-1 text-cyan-400">{status?.status?.state ?? "-"}</span>
+              <span className={`rounded-full px-2 py-1 ${deviceStateMeta(device?.state).className}`}>{deviceStateMeta(device?.state).label}</span>
             </div>
             <div className="flex items-center justify-between border-b border-border pb-2">
               <span className="text-muted-foreground">Presion actual</span>
-              <span className="font-mono">{status?.status?.pressureKpa ?? 0} kPa</span>
+              <span className="font-mono">{formatMeasurement(device?.pressureKpa, 1, "kPa")}</span>
             </div>
             <div className="flex items-center justify-between border-b border-border pb-2">
               <span className="text-muted-foreground">Temperatura</span>
-              <span className="font-mono">{status?.status?.temperatureC ?? 0} C</span>
+              <span className="font-mono">{formatMeasurement(device?.temperatureC, 1, "C")}</span>
             </div>
             <div className="flex items-center justify-between border-b border-border pb-2">
               <span className="text-muted-foreground">Fuerza</span>
-              <span className="font-mono">{Number(status?.status?.forceNewtons ?? 0).toFixed(2)} N</span>
+              <span className="font-mono">{formatMeasurement(device?.forceNewtons, 2, "N")}</span>
             </div>
             <div className="flex items-center justify-between border-b border-border pb-2">
               <span className="text-muted-foreground">Config objetivo</span>
               <span className="font-mono">
-                {status?.status?.targetPressureKpa ?? 0} kPa / {Math.floor((status?.status?.configuredHoldTimeMs ?? 0) / 1000)} s
+                {formatMeasurement(device?.targetPressureKpa, 1, "kPa")} / {formatSeconds(device?.configuredHoldTimeMs)}
               </span>
             </div>
             <div className="flex items-center justify-between border-b border-border pb-2">
               <span className="text-muted-foreground">Release / Ciclos</span>
               <span className="font-mono">
-                {Math.floor((status?.status?.configuredReleaseTimeMs ?? 0) / 1000)} s / {status?.status?.configuredCycleTarget ?? 0}
+                {formatSeconds(device?.configuredReleaseTimeMs)} / {device?.configuredCycleTarget ?? "-"}
               </span>
             </div>
             <div className="flex items-center justify-between border-b border-border pb-2">
               <span className="text-muted-foreground">Ultimo ACK</span>
               <span className="font-mono text-xs">
-                {status?.status?.lastAck?.command
-                  ? `${status.status.lastAck.command} ${status.status.lastAck.result ?? ""}`
+                {device?.lastAck?.command
+                  ? `${device.lastAck.command} ${device.lastAck.result ?? ""}`
                   : "-"}
               </span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-muted-foreground">Conexion MQTT</span>
-              <span className={status?.status?.connected ? "text-emerald-400" : "text-red-400"}>
-                {status?.status?.connected ? "ACTIVA" : "DESCONECTADA"}
+              <span className={device?.connected ? "text-emerald-400" : "text-red-400"}>
+                {device?.connected ? "ACTIVA" : "DESCONECTADA"}
               </span>
             </div>
           </CardContent>
@@ -1,6 +1,13 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import axios from "@/lib/axios";
+import { useLiveTelemetry } from "@/modules/Telemetry/data/telemetry.store";
+import {
+  deviceStateMeta,
+  formatMeasurement,
+  historyChartData,
+} from "@/modules/Telemetry/deviceState";
+import { TelemetryIssueAlert } from "@/modules/Telemetry/telemetryIssueAlert";
 import {
   Line,
   LineChart,
@@ -18,68 +25,63 @@ type LogRow = {
   createdAt: string;
 };
 
+// La telemetría llega en vivo; los logs solo necesitan refrescarse de vez en cuando
+const LOGS_REFRESH_MS = 10_000;
+
 export function AdminDashboardPage() {
-  const [status, setStatus] = useState<any>(null);
+  const { data: status, issue } = useLiveTelemetry("mqtt");
   const [logs, setLogs] = useState<LogRow[]>([]);
 
   useEffect(() => {
     const load = async () => {
-      const [mqttRes, logsRes] = await Promise.all([
-        axios.get("/mqtt/status"),
-        axios.get("/logs?limit=8"),
-      ]);
-      setStatus(mqttRes.data);
-      setLogs(logsRes.data);
+      const res = await axios.get("/logs?limit=8");
+      setLogs(res.data);
     };
 
     void load();
-    const timer = setInterval(() => void load(), 2000);
+    const timer = setInterval(() => void load(), LOGS_REFRESH_MS);
     return () => clearInterval(timer);
   }, []);
 
-  const history =
-    status?.history?.map((item: any, idx: number) => ({
-      idx,
-      pressure: Number(item.pressureKpa ?? 0),
-      temp: Number(item.temperatureC ?? 0),
-      force: Number(item.forceNewtons ?? 0),
-    })) ?? [];
+  const device = status?.status;
+  const history = historyChartData(status?.history ?? []);
 
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-semibold">Dashboard tecnico</h2>
+      <TelemetryIssueAlert issue={issue} />
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
           <CardHeader>
             <CardTitle>Estado del sistema</CardTitle>
           </CardHeader>
           <CardContent>
-            ESP32: {status?.status?.connected ? "conectado" : "desconectado"}
+            ESP32: {device?.connected ? "conectado" : "desconectado"}
           </CardContent>
         </Card>
         <Card>
           <CardHeader>
             <CardTitle>Presion actual</CardTitle>
           </CardHeader>
-          <CardContent>{status?.status?.pressureKpa ?? 0} kPa</CardContent>
+          <CardContent>{formatMeasurement(device?.pressureKpa, 1, "kPa")}</CardContent>
         </Card>
         <Card>
           <CardHeader>
             <CardTitle>Temperatura</CardTitle>
           </CardHeader>
-          <CardContent>{status?.status?.temperatureC ?? 0} C</CardContent>
+          <CardContent>{formatMeasurement(device?.temperatureC, 1, "C")}</CardContent>
         </Card>
         <Card>
           <CardHeader>
             <CardTitle>Fuerza actual</CardTitle>
           </CardHeader>
-          <CardContent>{Number(status?.status?.forceNewtons ?? 0).toFixed(2)} N</CardContent>
+          <CardContent>{formatMeasurement(device?.forceNewtons, 2, "N")}</CardContent>
         </Card>
         <Card>
           <CardHeader>
             <CardTitle>Estado del ciclo</CardTitle>
           </CardHeader>
-          <CardContent>{status?.status?.state ?? "-"}</CardContent>
+          <CardContent>{deviceStateMeta(device?.state).label}</CardContent>
         </Card>
       </div>
 
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from "react";
+import { Navigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useAuthStore } from "@/auth/useAuth";
+import axios from "@/lib/axios";
+import { logSystemEvent } from "@/lib/systemLog";
+import {
+  isWebSerialSupported,
+  requestPort,
+} from "@/modules/Monitoring/serialAdapter";
+import type { SerialPort } from "@/modules/Monitoring/serial.interface";
+import {
+  DEFAULT_APP_OFFSET,
+  flashFirmware,
+  validateFirmwareImage,
+  validateFlashOffset,
+  type FlashProgress,
+  type FlashStage,
+} from "@/modules/Monitoring/espFlasher";
+
+type LogRow = {
+  id: string;
+  level: string;
+  source: string;
+  message: string;
+  createdAt: string;
+};
+
+const stageLabel: Record<FlashStage, string> = {
+  reset: "Reiniciando en modo bootloader",
+  sync: "Sincronizando con el bootloader",
+  erase: "Borrando flash",
+  write: "Escribiendo",
+  verify: "Verificando (MD5)",
+};
+
+function formatSize(bytes: number) {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function AdminFirmwarePage() {
+  const role = useAuthStore((state) => state.type);
+  const [file, setFile] = useState<File | null>(null);
+  const [offsetText, setOffsetText] = useState(
+    `0x${DEFAULT_APP_OFFSET.toString(16)}`,
+  );
+  const [progress, setProgress] = useState<FlashProgress | null>(null);
+  const [flashing, setFlashing] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [updates, setUpdates] = useState<LogRow[]>([]);
+  const [updatesError, setUpdatesError] = useState<string | null>(null);
+
+  const loadUpdates = useCallback(async () => {
+    try {
+      const res = await axios.get("/logs?limit=150");
+      setUpdates(
+        (res.data as LogRow[])
+          .filter((log) => log.source === "firmware")
+          .slice(0, 5),
+      );
+      setUpdatesError(null);
+    } catch (e: unknown) {
+      console.error(e);
+      setUpdatesError(
+        e instanceof Error
+          ? e.message
+          : "No se pudieron cargar las actualizaciones",
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    if (role !== "admin") return;
+    void loadUpdates();
+  }, [role, loadUpdates]);
+
+  // Grabar firmware es solo para administradores
+  if (role !== "admin") return <Navigate to="/" replace />;
+
+  const offset = /^(0x)?[0-9a-f]+$/i.test(offsetText.trim())
+    ? Number.parseInt(offsetText.trim(), 16)
+    : Number.NaN;
+  const offsetError = validateFlashOffset(offset, file?.size);
+  const canFlash =
+    !!file && !offsetError && !flashing && isWebSerialSupported();
+  const percent = progress
+    ? Math.round((progress.written / Math.max(1, progress.total)) * 100)
+    : 0;
+
+  const flash = async () => {
+    if (!file) return;
+    setError(null);
+    setResult(null);
+    const image = new Uint8Array(await file.arrayBuffer());
+    const invalid =
+      validateFirmwareImage(image) ?? validateFlashOffset(offset, image.length);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    let port: SerialPort;
+    try {
+      port = await requestPort();
+    } catch {
+      return; // cancelado por el usuario
+    }
+    const info = port.getInfo?.();
+    const target =
+      info?.usbVendorId !== undefined
+        ? `USB ${info.usbVendorId.toString(16).padStart(4, "0")}:${(info.usbProductId ?? 0).toString(16).padStart(4, "0")}`
+        : "puerto serie";
+
+    setFlashing(true);
+    let message: string;
+    try {
+      const done = await flashFirmware(port, image, {
+        offset,
+        onProgress: setProgress,
+      });
+      message = `Firmware "${file.name}" (${formatSize(done.size)}, MD5 ${done.md5}) grabado en ${target} en 0x${done.offset.toString(16)} y verificado.`;
+    } catch (e: unknown) {
+      const reason =
+        e instanceof Error ? e.message : "No se pudo grabar el firmware.";
+      setError(reason);
+      toast.error("La actualizacion de firmware fallo");
+      await logSystemEvent(
+        "error",
+        "firmware",
+        `Fallo al grabar "${file.name}" en ${target}: ${reason}`,
+      ).catch(() => undefined);
+      await loadUpdates();
+      return;
+    } finally {
+      setFlashing(false);
+    }
+
+    // El equipo ya quedo grabado: un fallo del log no es un fallo de grabacion
+    setResult(message);
+    toast.success("Firmware actualizado");
+    try {
+      await logSystemEvent("info", "firmware", message);
+    } catch (e: unknown) {
+      console.error(e);
+      toast.warning("No se pudo registrar la actualizacion en el log");
+    }
+    await loadUpdates();
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-semibold tracking-tight">
+        Actualizacion de firmware
+      </h2>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Grabar por USB</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Conecte la banda por USB, elija la imagen (.bin) y seleccione el
+              puerto. El equipo se reinicia en modo bootloader, se graba y se
+              verifica con MD5 antes de volver a arrancar.
+            </p>
+            <div className="grid gap-2 md:grid-cols-[minmax(0,1fr)_140px]">
+              <Input
+                type="file"
+                accept=".bin,application/octet-stream"
+                disabled={flashing}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <Input
+                value={offsetText}
+                disabled={flashing}
+                onChange={(e) => setOffsetText(e.target.value)}
+                title="Direccion de la flash (hex)"
+              />
+            </div>
+            {offsetError && (
+              <p className="text-xs text-destructive">{offsetError}</p>
+            )}
+            {file && (
+              <p className="text-xs text-muted-foreground">
+                {file.name} · {formatSize(file.size)}
+              </p>
+            )}
+
+            <Button onClick={() => void flash()} disabled={!canFlash}>
+              {flashing ? "Grabando..." : "Seleccionar puerto y grabar"}
+            </Button>
+            {!isWebSerialSupported() && (
+              <p className="text-xs text-destructive">
+                WebSerial no soportado en este navegador.
+              </p>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{stageLabel[progress.stage]}</span>
+                  <span className="font-mono">
+                    {formatSize(progress.written)} /{" "}
+                    {formatSize(progress.total)} · {percent}%
+                  </span>
+                </div>
+                <Progress value={percent} className="h-2" />
+              </div>
+            )}
+
+            {result && (
+              <p className="rounded border border-emerald-500/40 bg-emerald-500/5 p-2 text-sm">
+                {result}
+              </p>
+            )}
+            {error && (
+              <p className="rounded border border-destructive/40 bg-destructive/5 p-2 text-sm text-destructive">
+                {error}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Ultimas actualizaciones</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {updatesError && (
+              <p className="text-sm text-destructive">{updatesError}</p>
+            )}
+            {updates.map((log) => (
+              <div
+                key={log.id}
+                className="rounded border border-border p-3 text-sm"
+              >
+                <p className="font-medium">
+                  [{log.level}] {new Date(log.createdAt).toLocaleString()}
+                </p>
+                <p className="text-muted-foreground break-all">
+                  {log.message}
+                </p>
+              </div>
+            ))}
+            {!updatesError && updates.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Sin actualizaciones registradas.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+// src/modules/Checklist/checklist.evaluation.ts
+import type {
+  ChecklistAnswers,
+  ChecklistItem,
+  ChecklistRecord,
+} from "./checklist.interface";
+
+/**
+ * Checklist de seguridad previo al inflado. Si la configuracion no se puede
+ * leer se usa la lista predeterminada: el inicio nunca queda sin control.
+ */
+
+export const DEFAULT_CHECKLIST: ChecklistItem[] = [
+  {
+    id: "suspected_dvt",
+    label: "Sospecha de trombosis venosa profunda (TVP) activa o no descartada",
+    help: "Dolor, edema unilateral, calor o enrojecimiento de la pierna",
+    severity: "hard",
+    enabled: true,
+  },
+  {
+    id: "open_wounds",
+    label: "Heridas abiertas, ulceras o injertos recientes en {zona}",
+    severity: "hard",
+    enabled: true,
+  },
+  {
+    id: "arterial_disease",
+    label: "Enfermedad arterial periferica o isquemia en la extremidad",
+    help: "Pulsos ausentes, claudicacion o ITB bajo",
+    severity: "hard",
+    enabled: true,
+  },
+  {
+    id: "skin_integrity",
+    label: "Piel fragil, dermatitis o alteracion de la sensibilidad en {zona}",
+    severity: "caution",
+    enabled: true,
+  },
+  {
+    id: "band_fit",
+    label: "La banda no queda bien ajustada o no es de la talla del paciente",
+    help: "Debe entrar un dedo entre la banda y la piel",
+    severity: "hard",
+    enabled: true,
+  },
+];
+
+// Largo minimo de la justificacion para iniciar pese a una contraindicacion
+export const MIN_OVERRIDE_REASON = 15;
+
+export function checklistLabel(item: ChecklistItem, zone: string) {
+  return item.label.replaceAll("{zona}", zone ? zone.replaceAll("_", " ") : "la zona tratada");
+}
+
+export function evaluateChecklist(
+  items: ChecklistItem[],
+  answers: ChecklistAnswers,
+  overrideReason: string,
+) {
+  const enabled = items.filter((item) => item.enabled);
+  const missing = enabled.filter((item) => !answers[item.id]);
+  const hard = enabled.filter((item) => item.severity === "hard" && answers[item.id] === "yes");
+  const cautions = enabled.filter((item) => item.severity === "caution" && answers[item.id] === "yes");
+  const overridden = hard.length > 0 && overrideReason.trim().length >= MIN_OVERRIDE_REASON;
+  return {
+    missing,
+    hard,
+    cautions,
+    overridden,
+    canStart: missing.length === 0 && (hard.length === 0 || overridden),
+  };
+}
+
+export function checklistRecord(
+  items: ChecklistItem[],
+  answers: ChecklistAnswers,
+  overrideReason: string,
+  zone: string,
+): ChecklistRecord {
+  const enabled = items.filter((item) => item.enabled && answers[item.id]);
+  const blocked = enabled.some((item) => item.severity === "hard" && answers[item.id] === "yes");
+  return {
+    items: enabled.map((item) => ({
+      id: item.id,
+      label: checklistLabel(item, zone),
+      severity: item.severity,
+      answer: answers[item.id],
+    })),
+    blocked,
+    overrideReason: blocked ? overrideReason.trim() : null,
+    completedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,31 @@
+// src/modules/Checklist/checklist.interface.ts
+
+// "hard": contraindicacion que bloquea el inicio salvo justificacion
+// "caution": precaucion que se registra pero no bloquea
+export type ChecklistSeverity = "hard" | "caution";
+export type ChecklistAnswer = "yes" | "no";
+
+// Cada pregunta se formula de modo que "Si" indica riesgo.
+// "{zona}" se reemplaza por la zona del tratamiento.
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  help?: string | null;
+  severity: ChecklistSeverity;
+  enabled: boolean;
+}
+
+export type ChecklistAnswers = Record<string, ChecklistAnswer>;
+
+// Lo que se guarda junto al tratamiento
+export interface ChecklistRecord {
+  items: Array<{
+    id: string;
+    label: string;
+    severity: ChecklistSeverity;
+    answer: ChecklistAnswer;
+  }>;
+  blocked: boolean; // hubo algun "Si" en una contraindicacion absoluta
+  overrideReason: string | null;
+  completedAt: string;
+}
@@ -0,0 +1,22 @@
+// src/modules/Checklist/data/checklist.service.ts
+import axios from "@/lib/axios";
+import type { ChecklistItem } from "../checklist.interface";
+
+export const checklistService = {
+  /** Preguntas vigentes para iniciar un tratamiento */
+  findActive: async (): Promise<ChecklistItem[]> => {
+    const res = await axios.get("/doctor/checklist");
+    return res.data;
+  },
+
+  /** Configuracion completa (incluye preguntas desactivadas) */
+  findConfig: async (): Promise<ChecklistItem[]> => {
+    const res = await axios.get("/admin/checklist");
+    return res.data;
+  },
+
+  update: async (items: ChecklistItem[]): Promise<ChecklistItem[]> => {
+    const res = await axios.put("/admin/checklist", { items });
+    return res.data;
+  },
+};
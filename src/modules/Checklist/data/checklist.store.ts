@@ -0,0 +1,69 @@
+// src/modules/Checklist/data/checklist.store.ts
+import { create } from "zustand";
+import { toast } from "sonner";
+import { checklistService } from "./checklist.service";
+import { DEFAULT_CHECKLIST } from "../checklist.evaluation";
+import type { ChecklistItem } from "../checklist.interface";
+
+interface ChecklistState {
+  items: ChecklistItem[];
+  usingDefaults: boolean; // no hay configuracion guardada o no se pudo leer
+  isLoading: boolean;
+  error: string | null; // fallo al leer la configuracion
+
+  fetchActive: () => Promise<void>;
+  fetchConfig: () => Promise<void>;
+  save: (items: ChecklistItem[]) => Promise<boolean>;
+}
+
+// Sin configuracion guardada (o sin acceso) se aplica la lista predeterminada;
+// el error se conserva para no confundir un fallo con una lista vacia
+async function loadItems(fetch: () => Promise<ChecklistItem[]>) {
+  try {
+    const items = await fetch();
+    return items.length
+      ? { items, usingDefaults: false, error: null }
+      : { items: DEFAULT_CHECKLIST, usingDefaults: true, error: null };
+  } catch (e) {
+    console.error(e);
+    return {
+      items: DEFAULT_CHECKLIST,
+      usingDefaults: true,
+      error: e instanceof Error ? e.message : "No se pudo cargar el checklist",
+    };
+  }
+}
+
+export const checklistStore = create<ChecklistState>((set) => ({
+  items: DEFAULT_CHECKLIST,
+  usingDefaults: true,
+  isLoading: false,
+  error: null,
+
+  fetchActive: async () => {
+    set({ isLoading: true });
+    set({ ...(await loadItems(checklistService.findActive)), isLoading: false });
+  },
+
+  fetchConfig: async () => {
+    set({ isLoading: true });
+    set({ ...(await loadItems(checklistService.findConfig)), isLoading: false });
+  },
+
+  save: async (items) => {
+    if (!items.some((item) => item.enabled)) {
+      toast.error("El checklist necesita al menos una pregunta activa");
+      return false;
+    }
+    try {
+      const saved = await checklistService.update(items);
+      set({ items: saved.length ? saved : items, usingDefaults: false, error: null });
+      toast.success("Checklist guardado");
+      return true;
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : "No se pudo guardar el checklist");
+      return false;
+    }
+  },
+}));
@@ -0,0 +1,103 @@
+// src/modules/Checklist/safetyChecklist.tsx
+import { Input } from "@/components/ui/input";
+import {
+  MIN_OVERRIDE_REASON,
+  checklistLabel,
+  evaluateChecklist,
+} from "./checklist.evaluation";
+import type {
+  ChecklistAnswer,
+  ChecklistAnswers,
+  ChecklistItem,
+} from "./checklist.interface";
+
+interface SafetyChecklistProps {
+  items: ChecklistItem[];
+  zone: string;
+  answers: ChecklistAnswers;
+  overrideReason: string;
+  disabled?: boolean;
+  onAnswer: (id: string, answer: ChecklistAnswer) => void;
+  onOverrideReason: (reason: string) => void;
+}
+
+/** Checklist de contraindicaciones; cada "Si" en rojo es absoluto */
+export function SafetyChecklist({
+  items,
+  zone,
+  answers,
+  overrideReason,
+  disabled,
+  onAnswer,
+  onOverrideReason,
+}: SafetyChecklistProps) {
+  const enabled = items.filter((item) => item.enabled);
+  const result = evaluateChecklist(items, answers, overrideReason);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="text-sm font-medium">Checklist de seguridad</p>
+      {enabled.map((item) => {
+        const answer = answers[item.id];
+        const risk = answer === "yes";
+        return (
+          <div
+            key={item.id}
+            className={
+              "flex items-start justify-between gap-3 rounded border p-2 text-sm " +
+              (risk ? (item.severity === "hard" ? "border-red-500/60 bg-red-500/5" : "border-amber-500/60 bg-amber-500/5") : "")
+            }
+          >
+            <div>
+              <p>
+                {checklistLabel(item, zone)}
+                {item.severity === "hard" && <span className="ml-1 text-xs text-red-400">(absoluta)</span>}
+              </p>
+              {item.help && <p className="text-xs text-muted-foreground">{item.help}</p>}
+            </div>
+            <div className="flex shrink-0 gap-1">
+              {(["yes", "no"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onAnswer(item.id, value)}
+                  className={
+                    "rounded border px-3 py-1 text-xs " +
+                    (answer === value
+                      ? value === "yes"
+                        ? "border-red-500 bg-red-500/20"
+                        : "border-emerald-500 bg-emerald-500/20"
+                      : "border-border")
+                  }
+                >
+                  {value === "yes" ? "Si" : "No"}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {result.missing.length > 0 && (
+        <p className="text-xs text-muted-foreground">Faltan {result.missing.length} respuesta(s).</p>
+      )}
+      {result.cautions.length > 0 && (
+        <p className="text-xs text-amber-500">Precaucion registrada: vigilar la zona durante el tratamiento.</p>
+      )}
+      {result.hard.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-red-400">
+            Contraindicacion absoluta: el inicio queda bloqueado salvo justificacion clinica.
+          </p>
+          <Input
+            placeholder={`Justificacion para continuar (min. ${MIN_OVERRIDE_REASON} caracteres)`}
+            value={overrideReason}
+            disabled={disabled}
+            onChange={(e) => onOverrideReason(e.target.value)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import { useEffect, useMemo, useState, type DragEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import axios from "@/lib/axios";
+import { toast } from "sonner";
+import { scheduleStore } from "@/modules/Schedule/data/schedule.store";
+import {
+  SLOT_STATE_META,
+  addDays,
+  canReschedule,
+  dayKey,
+  formatTime,
+  movedScheduledAt,
+  slotState,
+  slotsByDay,
+  startOfDay,
+  weekDays,
+  type SlotState,
+} from "@/modules/Schedule/schedule.calendar";
+import type {
+  ScheduleCustomConfig,
+  ScheduleIntensity,
+  ScheduleMobility,
+  ScheduleSlot,
+  ScheduleZone,
+} from "@/modules/Schedule/schedule.interface";
+
+type PatientRow = { id: string; fullname: string; status: string };
+type CalendarView = "week" | "day";
+
+// Franja visible en la vista diaria; lo que cae fuera se muestra en el borde
+const DAY_HOURS = Array.from({ length: 14 }, (_, i) => 7 + i);
+const DRAG_TYPE = "text/plain";
+
+const INTENSITY_LABEL: Record<ScheduleIntensity, string> = {
+  low: "Baja",
+  medium: "Media",
+  high: "Alta",
+  custom: "Custom",
+};
+
+const DEFAULT_CUSTOM: ScheduleCustomConfig = {
+  targetPressureKpa: 5,
+  holdTimeSeconds: 10,
+  releaseTimeSeconds: 5,
+  cycleTarget: 25,
+};
+
+function SlotChip({
+  slot,
+  now,
+  selected,
+  onSelect,
+}: {
+  slot: ScheduleSlot;
+  now: number;
+  selected: boolean;
+  onSelect: (slot: ScheduleSlot) => void;
+}) {
+  const state = slotState(slot, now);
+  const draggable = canReschedule(slot, now);
+  return (
+    <button
+      draggable={draggable}
+      onDragStart={(e) => e.dataTransfer.setData(DRAG_TYPE, slot.id)}
+      onClick={() => onSelect(slot)}
+      title={SLOT_STATE_META[state].label}
+      className={
+        `w-full rounded border px-2 py-1 text-left text-xs ${SLOT_STATE_META[state].className} ` +
+        (draggable ? "cursor-grab " : "") +
+        (selected ? "ring-2 ring-cyan-400" : "")
+      }
+    >
+      <span className="font-mono">{formatTime(slot.scheduledAt)}</span>{" "}
+      <span className="font-medium">{slot.patientName ?? slot.patientId}</span>
+      <span className="block text-muted-foreground">
+        {slot.treatmentZone.replaceAll("_", " ")} - {INTENSITY_LABEL[slot.intensity]}
+      </span>
+    </button>
+  );
+}
+
+export function DoctorCalendarPage() {
+  const navigate = useNavigate();
+  const { slots, isLoading, error, fetchRange, create, reschedule, cancel } = scheduleStore();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [patientFilter, setPatientFilter] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [patients, setPatients] = useState<PatientRow[]>([]);
+
+  const [form, setForm] = useState({
+    patientId: "",
+    date: dayKey(new Date()),
+    time: "09:00",
+    durationMinutes: 30,
+    treatmentZone: "" as ScheduleZone | "",
+    mobilityLevel: "" as ScheduleMobility | "",
+    intensity: "medium" as ScheduleIntensity,
+  });
+  const [customConfig, setCustomConfig] = useState(DEFAULT_CUSTOM);
+
+  const days = useMemo(() => weekDays(anchor), [anchor]);
+  const weekFrom = days[0].toISOString();
+  const weekTo = addDays(days[0], 7).toISOString();
+
+  useEffect(() => {
+    void fetchRange(weekFrom, weekTo);
+  }, [weekFrom, weekTo, fetchRange]);
+
+  useEffect(() => {
+    axios.get("/doctor/patients").then((res) => setPatients(res.data));
+  }, []);
+
+  // Los turnos pasan a "perdido" sin recargar
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visible = useMemo(
+    () => (patientFilter ? slots.filter((s) => s.patientId === patientFilter) : slots),
+    [slots, patientFilter],
+  );
+  const byDay = useMemo(() => slotsByDay(visible), [visible]);
+  const selected = slots.find((s) => s.id === selectedId) ?? null;
+
+  const counts = useMemo(() => {
+    const result: Record<SlotState, number> = {
+      scheduled: 0,
+      in_progress: 0,
+      completed: 0,
+      missed: 0,
+      cancelled: 0,
+    };
+    for (const slot of visible) result[slotState(slot, now)] += 1;
+    return result;
+  }, [visible, now]);
+
+  const move = (step: number) =>
+    setAnchor((current) => addDays(current, view === "week" ? step * 7 : step));
+
+  const allowDrop = (key: string) => (e: DragEvent) => {
+    e.preventDefault();
+    setDropTarget(key);
+  };
+
+  const drop = (day: Date, hour?: number) => (e: DragEvent) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const slot = slots.find((s) => s.id === e.dataTransfer.getData(DRAG_TYPE));
+    if (!slot || !canReschedule(slot, now)) return;
+    const scheduledAt = movedScheduledAt(slot.scheduledAt, day, hour);
+    if (new Date(scheduledAt).getTime() < now) {
+      toast.error("No se puede reprogramar a una hora pasada");
+      return;
+    }
+    void reschedule(slot.id, scheduledAt);
+  };
+
+  const startSlot = (slot: ScheduleSlot) => navigate(`/doctor/treatments/new?slot=${slot.id}`);
+
+  const submit = async () => {
+    if (!form.patientId || !form.treatmentZone || !form.mobilityLevel || !form.date || !form.time) {
+      toast.error("Completa paciente, fecha, hora, zona y movilidad");
+      return;
+    }
+    const ok = await create({
+      patientId: form.patientId,
+      scheduledAt: new Date(`${form.date}T${form.time}`).toISOString(),
+      durationMinutes: form.durationMinutes,
+      treatmentZone: form.treatmentZone,
+      mobilityLevel: form.mobilityLevel,
+      intensity: form.intensity,
+      customConfig: form.intensity === "custom" ? customConfig : null,
+    });
+    if (ok) setAnchor(startOfDay(new Date(`${form.date}T${form.time}`)));
+  };
+
+  const dayColumn = (day: Date) => {
+    const key = dayKey(day);
+    const isToday = key === dayKey(new Date(now));
+    return (
+      <div
+        key={key}
+        onDragOver={allowDrop(key)}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={drop(day)}
+        className={
+          "min-h-48 space-y-1 rounded-md border p-2 " +
+          (dropTarget === key ? "border-cyan-400 bg-cyan-500/5" : "")
+        }
+      >
+        <button
+          className={`mb-1 w-full text-left text-xs font-medium ${isToday ? "text-cyan-500" : "text-muted-foreground"}`}
+          onClick={() => {
+            setAnchor(day);
+            setView("day");
+          }}
+        >
+          {day.toLocaleDateString([], { weekday: "short", day: "2-digit", month: "2-digit" })}
+        </button>
+        {(byDay.get(key) ?? []).map((slot) => (
+          <SlotChip
+            key={slot.id}
+            slot={slot}
+            now={now}
+            selected={slot.id === selectedId}
+            onSelect={(s) => setSelectedId(s.id)}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  const daySlots = byDay.get(dayKey(anchor)) ?? [];
+  const hourOf = (slot: ScheduleSlot) =>
+    Math.min(DAY_HOURS[DAY_HOURS.length - 1], Math.max(DAY_HOURS[0], new Date(slot.scheduledAt).getHours()));
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-semibold tracking-tight">Agenda de tratamientos</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {view === "week"
+              ? `Semana del ${days[0].toLocaleDateString()} al ${days[6].toLocaleDateString()}`
+              : anchor.toLocaleDateString([], { weekday: "long", day: "2-digit", month: "long" })}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="week">Semana</TabsTrigger>
+                <TabsTrigger value="day">Dia</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button size="sm" variant="outline" onClick={() => move(-1)}>Anterior</Button>
+            <Button size="sm" variant="outline" onClick={() => setAnchor(startOfDay(new Date()))}>Hoy</Button>
+            <Button size="sm" variant="outline" onClick={() => move(1)}>Siguiente</Button>
+            <select
+              className="h-9 rounded-md border bg-background px-3 text-sm"
+              value={patientFilter}
+              onChange={(e) => setPatientFilter(e.target.value)}
+            >
+              <option value="">Todos los pacientes</option>
+              {patients.map((patient) => (
+                <option key={patient.id} value={patient.id}>{patient.fullname}</option>
+              ))}
+            </select>
+            <div className="ml-auto flex flex-wrap gap-3 text-xs text-muted-foreground">
+              {(Object.keys(SLOT_STATE_META) as SlotState[]).map((state) => (
+                <span key={state} className={`rounded border px-2 py-0.5 ${SLOT_STATE_META[state].className}`}>
+                  {SLOT_STATE_META[state].label} {counts[state]}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {isLoading && !slots.length && <p className="text-sm text-muted-foreground">Cargando agenda...</p>}
+          <p className="text-xs text-muted-foreground">
+            Arrastra una sesion agendada o perdida a otro dia u hora para reprogramarla.
+          </p>
+
+          {view === "week" ? (
+            <div className="grid gap-2 md:grid-cols-7">{days.map(dayColumn)}</div>
+          ) : (
+            <div className="space-y-1">
+              {DAY_HOURS.map((hour) => {
+                const key = `${dayKey(anchor)}-${hour}`;
+                return (
+                  <div
+                    key={key}
+                    onDragOver={allowDrop(key)}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={drop(anchor, hour)}
+                    className={
+                      "grid min-h-12 grid-cols-[60px_1fr] gap-2 rounded border-t px-2 py-1 " +
+                      (dropTarget === key ? "bg-cyan-500/5 ring-1 ring-cyan-400" : "")
+                    }
+                  >
+                    <span className="font-mono text-xs text-muted-foreground">{String(hour).padStart(2, "0")}:00</span>
+                    <div className="grid gap-1 sm:grid-cols-2 lg:grid-cols-3">
+                      {daySlots
+                        .filter((slot) => hourOf(slot) === hour)
+                        .map((slot) => (
+                          <SlotChip
+                            key={slot.id}
+                            slot={slot}
+                            now={now}
+                            selected={slot.id === selectedId}
+                            onSelect={(s) => setSelectedId(s.id)}
+                          />
+                        ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader><CardTitle>Detalle de la sesion</CardTitle></CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {!selected && <p className="text-muted-foreground">Selecciona una sesion del calendario.</p>}
+            {selected && (
+              <>
+                <div className="flex items-center justify-between"><span>Paciente</span><span>{selected.patientName ?? selected.patientId}</span></div>
+                <div className="flex items-center justify-between"><span>Fecha</span><span>{new Date(selected.scheduledAt).toLocaleString()}</span></div>
+                <div className="flex items-center justify-between"><span>Duracion</span><span>{selected.durationMinutes} min</span></div>
+                <div className="flex items-center justify-between"><span>Zona</span><span>{selected.treatmentZone.replaceAll("_", " ")}</span></div>
+                <div className="flex items-center justify-between"><span>Movilidad</span><span>{selected.mobilityLevel.replaceAll("_", " ")}</span></div>
+                <div className="flex items-center justify-between">
+                  <span>Protocolo</span>
+                  <span>
+                    {INTENSITY_LABEL[selected.intensity]}
+                    {selected.intensity === "custom" && selected.customConfig
+                      ? ` ${selected.customConfig.targetPressureKpa} kPa / ${selected.customConfig.holdTimeSeconds}s / ${selected.customConfig.releaseTimeSeconds}s / ${selected.customConfig.cycleTarget} ciclos`
+                      : ""}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between"><span>Estado</span><span>{SLOT_STATE_META[slotState(selected, now)].label}</span></div>
+                {selected.notes && <p className="text-xs text-muted-foreground">{selected.notes}</p>}
+                {canReschedule(selected, now) && (
+                  <div className="flex gap-2 pt-2">
+                    <Button className="flex-1 bg-emerald-600 hover:bg-emerald-500" onClick={() => startSlot(selected)}>
+                      Iniciar tratamiento
+                    </Button>
+                    <Button variant="outline" onClick={() => void cancel(selected.id)}>
+                      Cancelar sesion
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader><CardTitle>Agendar sesion</CardTitle></CardHeader>
+          <CardContent className="space-y-2">
+            <select
+              className="h-10 w-full rounded-md border bg-background px-3"
+              value={form.patientId}
+              onChange={(e) => setForm({ ...form, patientId: e.target.value })}
+            >
+              <option value="">Selecciona paciente</option>
+              {patients.map((patient) => (
+                <option key={patient.id} value={patient.id}>{patient.fullname} - {patient.id}</option>
+              ))}
+            </select>
+            <div className="grid gap-2 sm:grid-cols-3">
+              <Input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+              <Input type="time" value={form.time} onChange={(e) => setForm({ ...form, time: e.target.value })} />
+              <Input
+                type="number"
+                min={5}
+                max={240}
+                value={form.durationMinutes}
+                onChange={(e) => setForm({ ...form, durationMinutes: Number(e.target.value) })}
+              />
+            </div>
+            <div className="grid gap-2 sm:grid-cols-3">
+              <select
+                className="h-10 rounded-md border bg-background px-3"
+                value={form.treatmentZone}
+                onChange={(e) => setForm({ ...form, treatmentZone: e.target.value as ScheduleZone | "" })}
+              >
+                <option value="">Zona</option>
+                <option value="pantorrilla_izquierda">Pantorrilla izquierda</option>
+                <option value="pantorrilla_derecha">Pantorrilla derecha</option>
+              </select>
+              <select
+                className="h-10 rounded-md border bg-background px-3"
+                value={form.mobilityLevel}
+                onChange={(e) => setForm({ ...form, mobilityLevel: e.target.value as ScheduleMobility | "" })}
+              >
+                <option value="">Movilidad</option>
+                <option value="independiente">Independiente</option>
+                <option value="movilidad_reducida">Movilidad reducida</option>
+                <option value="inmovil">Inmovil</option>
+              </select>
+              <select
+                className="h-10 rounded-md border bg-background px-3"
+                value={form.intensity}
+                onChange={(e) => setForm({ ...form, intensity: e.target.value as ScheduleIntensity })}
+              >
+                {Object.entries(INTENSITY_LABEL).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {form.intensity === "custom" && (
+              <div className="grid gap-2 sm:grid-cols-4">
+                {(
+                  [
+                    ["targetPressureKpa", "kPa"],
+                    ["holdTimeSeconds", "Hold (s)"],
+                    ["releaseTimeSeconds", "Release (s)"],
+                    ["cycleTarget", "Ciclos"],
+                  ] as Array<[keyof ScheduleCustomConfig, string]>
+                ).map(([key, label]) => (
+                  <label key={key} className="space-y-1 text-xs text-muted-foreground">
+                    <span>{label}</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={customConfig[key]}
+                      onChange={(e) =>
+                        setCustomConfig((current) => ({ ...current, [key]: Number(e.target.value) }))
+                      }
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+            <Button className="w-full" onClick={() => void submit()}>Agendar</Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import axios from "@/lib/axios";
+import { useLiveTelemetry } from "@/modules/Telemetry/data/telemetry.store";
+import {
+  deviceStateMeta,
+  formatMeasurement,
+  historyChartData,
+} from "@/modules/Telemetry/deviceState";
+import { TelemetryIssueAlert } from "@/modules/Telemetry/telemetryIssueAlert";
 import {
   Line,
   LineChart,
@@ -10,55 +17,31 @@ import {
   YAxis,
 } from "recharts";
 
-function stateMeta(state?: string) {
-  const value = (state ?? "-").toUpperCase();
-  switch (value) {
-    case "INFLA":
-      return { label: "Inflando", className: "bg-cyan-500/15 text-cyan-400" };
-    case "MANTIENE":
-      return { label: "Manteniendo", className: "bg-emerald-500/15 text-emerald-400" };
-    case "DESINFLA":
-      return { label: "Desinflando", className: "bg-amber-500/15 text-amber-400" };
-    case "LISTO":
-      return { label: "Listo", className: "bg-emerald-500/15 text-emerald-400" };
-    case "ERROR":
-      return { label: "Error", className: "bg-red-500/15 text-red-400" };
-    case "MENU":
-      return { label: "En espera", className: "bg-zinc-500/15 text-zinc-300" };
-    default:
-      return { label: value, className: "bg-zinc-500/15 text-zinc-300" };
-  }
-}
+// Los contadores del resumen cambian poco; el estado del equipo llega en vivo
+const SUMMARY_REFRESH_MS = 15_000;
 
 export function DoctorDashboardPage() {
   const [summary, setSummary] = useState<any>(null);
-  const [live, setLive] = useState<any>(null);
+  const { data: live, issue } = useLiveTelemetry("live");
 
   useEffect(() => {
     const load = async () => {
-      const [s, l] = await Promise.all([
-        axios.get("/doctor/dashboard/summary"),
-        axios.get("/doctor/dashboard/live"),
-      ]);
-      setSummary(s.data);
-      setLive(l.data);
+      const res = await axios.get("/doctor/dashboard/summary");
+      setSummary(res.data);
     };
     void load();
-    const timer = setInterval(() => void load(), 2000);
+    const timer = setInterval(() => void load(), SUMMARY_REFRESH_MS);
     return () => clearInterval(timer);
   }, []);
 
-  const history =
-    live?.history?.map((item: any, idx: number) => ({
-      idx,
-      pressure: Number(item.pressureKpa ?? 0),
-      temp: Number(item.temperatureC ?? 0),
-    })) ?? [];
-  const phase = stateMeta(live?.status?.state);
+  const device = live?.status;
+  const history = historyChartData(live?.history ?? []);
+  const phase = deviceStateMeta(device?.state);
 
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-semibold tracking-tight">Panel clinico</h2>
+      <TelemetryIssueAlert issue={issue} />
 
       <div className="grid gap-4 md:grid-cols-5">
         <Card>
@@ -69,15 +52,15 @@ export function DoctorDashboardPage() {
         </Card>
         <Card>
           <CardHeader><CardTitle>Presion actual</CardTitle></CardHeader>
-          <CardContent>{live?.status?.pressureKpa ?? 0} kPa</CardContent>
+          <CardContent>{formatMeasurement(device?.pressureKpa, 1, "kPa")}</CardContent>
         </Card>
         <Card>
           <CardHeader><CardTitle>Temp. actual</CardTitle></CardHeader>
-          <CardContent>{live?.status?.temperatureC ?? 0} C</CardContent>
+          <CardContent>{formatMeasurement(device?.temperatureC, 1, "C")}</CardContent>
         </Card>
         <Card>
           <CardHeader><CardTitle>Fuerza actual</CardTitle></CardHeader>
-          <CardContent>{Number(live?.status?.forceNewtons ?? 0).toFixed(2)} N</CardContent>
+          <CardContent>{formatMeasurement(device?.forceNewtons, 2, "N")}</CardContent>
         </Card>
         <Card>
           <CardHeader><CardTitle>Pacientes</CardTitle></CardHeader>
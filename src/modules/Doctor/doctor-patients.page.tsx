@@ -3,6 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import axios from "@/lib/axios";
+import { TreatmentPlanPanel } from "@/modules/TreatmentPlan/treatmentPlanPanel";
+import { OutcomeTrendCard } from "@/modules/Outcome/outcomeTrend";
+import { LimbMeasurementPanel } from "@/modules/LimbMeasurement/limbMeasurementPanel";
 
 type PatientRow = {
   id: string;
@@ -186,6 +189,14 @@ export function DoctorPatientsPage() {
           </CardContent>
         </Card>
       </div>
+
+      {selected && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <TreatmentPlanPanel patientId={selected.id} />
+          <OutcomeTrendCard patientId={selected.id} />
+        </div>
+      )}
+      {selected && <LimbMeasurementPanel patientId={selected.id} />}
     </div>
   );
 }
@@ -1,14 +1,21 @@
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import axios from "@/lib/axios";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { TreatmentTimeline } from "@/modules/Telemetry/treatmentTimeline";
+import type { StoredStateTimeline } from "@/modules/Telemetry/stateTimeline";
+import type { ChecklistRecord } from "@/modules/Checklist/checklist.interface";
+import type { TreatmentOutcome } from "@/modules/Outcome/outcome.interface";
+import { COMFORT_LABEL, SKIN_CONCERNS } from "@/modules/Outcome/outcome.meta";
+import { OutcomeDialog } from "@/modules/Outcome/outcomeDialog";
 
 type Treatment = {
   id: string;
   patientId: string;
   patientName?: string;
   configId?: string | null;
+  planId?: string | null;
   intensity?: string;
   treatmentZone?: string;
   mobilityLevel?: string;
@@ -21,12 +28,21 @@ type Treatment = {
   startedAt: string;
   endedAt: string | null;
   durationSeconds?: number;
+  safetyChecklist?: ChecklistRecord | null;
+  outcome?: TreatmentOutcome | null;
+  stateTimeline?: StoredStateTimeline | null;
 };
 
+type OutcomeFilter = "all" | "with" | "without" | "skin";
+
 export function DoctorTreatmentHistoryPage() {
   const [items, setItems] = useState<Treatment[]>([]);
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>("all");
+  const [minPain, setMinPain] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [outcomeFor, setOutcomeFor] = useState<Treatment | null>(null);
 
   useEffect(() => {
     axios.get("/doctor/treatments/history").then((res) => setItems(res.data));
@@ -36,10 +52,18 @@ export function DoctorTreatmentHistoryPage() {
     () =>
       items.filter((item) => {
         const byStatus = statusFilter === "all" ? true : item.status === statusFilter;
-        const text = `${item.patientId} ${item.patientName ?? ""} ${item.intensity ?? ""} ${item.treatmentZone ?? ""} ${item.mobilityLevel ?? ""}`.toLowerCase();
-        return byStatus && text.includes(search.toLowerCase());
+        const outcome = item.outcome;
+        const byOutcome =
+          outcomeFilter === "all" ||
+          (outcomeFilter === "with" && !!outcome) ||
+          (outcomeFilter === "without" && !outcome) ||
+          (outcomeFilter === "skin" &&
+            !!outcome?.skinObservations.some((o) => SKIN_CONCERNS.includes(o)));
+        const byPain = minPain === "" || (outcome != null && outcome.painScore >= Number(minPain));
+        const text = `${item.patientId} ${item.patientName ?? ""} ${item.intensity ?? ""} ${item.treatmentZone ?? ""} ${item.mobilityLevel ?? ""} ${outcome?.notes ?? ""}`.toLowerCase();
+        return byStatus && byOutcome && byPain && text.includes(search.toLowerCase());
       }),
-    [items, search, statusFilter],
+    [items, search, statusFilter, outcomeFilter, minPain],
   );
 
   const downloadCsv = () => {
@@ -47,6 +71,7 @@ export function DoctorTreatmentHistoryPage() {
       "id",
       "patientId",
       "patientName",
+      "planId",
       "intensity",
       "treatmentZone",
       "mobilityLevel",
@@ -59,11 +84,17 @@ export function DoctorTreatmentHistoryPage() {
       "durationSeconds",
       "startedAt",
       "endedAt",
+      "checklistOverride",
+      "painScore",
+      "comfort",
+      "skinObservations",
+      "outcomeNotes",
     ];
     const rows = filtered.map((item) => [
       item.id,
       item.patientId,
       item.patientName ?? "",
+      item.planId ?? "",
       item.intensity ?? "",
       item.treatmentZone ?? "",
       item.mobilityLevel ?? "",
@@ -76,6 +107,11 @@ export function DoctorTreatmentHistoryPage() {
       String(item.durationSeconds ?? 0),
       item.startedAt,
       item.endedAt ?? "",
+      item.safetyChecklist?.overrideReason ?? "",
+      String(item.outcome?.painScore ?? ""),
+      String(item.outcome?.comfort ?? ""),
+      item.outcome?.skinObservations.join("|") ?? "",
+      item.outcome?.notes ?? "",
     ]);
     const csv = [header, ...rows]
       .map((row) => row.map((col) => `"${String(col).replace(/"/g, '""')}"`).join(","))
@@ -93,14 +129,30 @@ export function DoctorTreatmentHistoryPage() {
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-semibold tracking-tight">Registro de tratamientos</h2>
+      {outcomeFor && (
+        <OutcomeDialog
+          key={outcomeFor.id}
+          treatment={{
+            id: outcomeFor.id,
+            patientName: outcomeFor.patientName ?? outcomeFor.patientId,
+            patientId: outcomeFor.patientId,
+            treatmentZone: outcomeFor.treatmentZone ?? null,
+            outcome: outcomeFor.outcome ?? null,
+          }}
+          onSaved={(outcome) =>
+            setItems((current) => current.map((t) => (t.id === outcomeFor.id ? { ...t, outcome } : t)))
+          }
+          onClose={() => setOutcomeFor(null)}
+        />
+      )}
       <Card>
         <CardHeader>
           <CardTitle>Historial</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
-          <div className="grid gap-2 md:grid-cols-3">
+          <div className="grid gap-2 md:grid-cols-5">
             <Input
-              placeholder="Buscar por paciente, intensidad, zona o movilidad"
+              placeholder="Buscar por paciente, intensidad, zona, movilidad o notas"
               value={search}
               onChange={(e) => setSearch(e.target.value)}
             />
@@ -114,6 +166,24 @@ export function DoctorTreatmentHistoryPage() {
               <option value="completed">Completed</option>
               <option value="aborted">Aborted</option>
             </select>
+            <select
+              className="h-10 rounded-md border bg-background px-3"
+              value={outcomeFilter}
+              onChange={(e) => setOutcomeFilter(e.target.value as OutcomeFilter)}
+            >
+              <option value="all">Todos los resultados</option>
+              <option value="with">Con resultado</option>
+              <option value="without">Sin resultado</option>
+              <option value="skin">Hallazgos en piel</option>
+            </select>
+            <Input
+              min={0}
+              max={10}
+              placeholder="EVA minima"
+              type="number"
+              value={minPain}
+              onChange={(e) => setMinPain(e.target.value)}
+            />
             <Button onClick={downloadCsv}>Descargar CSV</Button>
           </div>
 
@@ -132,26 +202,81 @@ export function DoctorTreatmentHistoryPage() {
                   <th className="px-3 py-2">Duracion</th>
                   <th className="px-3 py-2">Inicio</th>
                   <th className="px-3 py-2">Fin</th>
+                  <th className="px-3 py-2">EVA</th>
+                  <th className="px-3 py-2">Confort</th>
+                  <th className="px-3 py-2">Resultado</th>
+                  <th className="px-3 py-2">Estados</th>
                 </tr>
               </thead>
               <tbody>
-                {filtered.map((item) => (
-                  <tr key={item.id} className="border-t">
-                    <td className="px-3 py-2">{item.patientId}</td>
-                    <td className="px-3 py-2">{item.patientName ?? "-"}</td>
-                    <td className="px-3 py-2 uppercase">{item.intensity ?? "-"}</td>
-                    <td className="px-3 py-2">{item.treatmentZone?.replace("_", " ") ?? "-"}</td>
-                    <td className="px-3 py-2">{item.mobilityLevel?.replace("_", " ") ?? "-"}</td>
-                    <td className="px-3 py-2">
-                      {item.targetPressureKpa ?? "-"} kPa / {item.holdTimeSeconds ?? "-"}s / {item.releaseTimeSeconds ?? "-"}s / {item.cycleTarget ?? "-"} ciclos
-                    </td>
-                    <td className="px-3 py-2">{item.status}</td>
-                    <td className="px-3 py-2">{item.cycleCount}</td>
-                    <td className="px-3 py-2">{item.durationSeconds ?? 0}s</td>
-                    <td className="px-3 py-2">{new Date(item.startedAt).toLocaleString()}</td>
-                    <td className="px-3 py-2">{item.endedAt ? new Date(item.endedAt).toLocaleString() : "-"}</td>
-                  </tr>
-                ))}
+                {filtered.map((item) => {
+                  const timeline = item.stateTimeline?.transitions.length ? item.stateTimeline : null;
+                  return (
+                    <Fragment key={item.id}>
+                      <tr className="border-t">
+                        <td className="px-3 py-2">{item.patientId}</td>
+                        <td className="px-3 py-2">{item.patientName ?? "-"}</td>
+                        <td className="px-3 py-2 uppercase">{item.intensity ?? "-"}</td>
+                        <td className="px-3 py-2">{item.treatmentZone?.replace("_", " ") ?? "-"}</td>
+                        <td className="px-3 py-2">{item.mobilityLevel?.replace("_", " ") ?? "-"}</td>
+                        <td className="px-3 py-2">
+                          {item.targetPressureKpa ?? "-"} kPa / {item.holdTimeSeconds ?? "-"}s / {item.releaseTimeSeconds ?? "-"}s / {item.cycleTarget ?? "-"} ciclos
+                        </td>
+                        <td className="px-3 py-2">{item.status}</td>
+                        <td className="px-3 py-2">{item.cycleCount}</td>
+                        <td className="px-3 py-2">{item.durationSeconds ?? 0}s</td>
+                        <td className="px-3 py-2">{new Date(item.startedAt).toLocaleString()}</td>
+                        <td className="px-3 py-2">{item.endedAt ? new Date(item.endedAt).toLocaleString() : "-"}</td>
+                        <td className="px-3 py-2" title={item.outcome?.notes ?? undefined}>
+                          {item.outcome ? `${item.outcome.painScore}/10` : "-"}
+                        </td>
+                        <td className="px-3 py-2">{item.outcome ? COMFORT_LABEL[item.outcome.comfort] : "-"}</td>
+                        <td className="px-3 py-2">
+                          {item.endedAt ? (
+                            <Button size="sm" variant="outline" onClick={() => setOutcomeFor(item)}>
+                              {item.outcome ? "Editar" : "Registrar"}
+                            </Button>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">En curso</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {timeline ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                            >
+                              {expandedId === item.id ? "Ocultar" : "Ver"}
+                            </Button>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Sin registro</span>
+                          )}
+                        </td>
+                      </tr>
+                      {timeline && expandedId === item.id && (
+                        <tr className="border-t bg-muted/10">
+                          <td colSpan={15} className="px-3 py-3">
+                            <TreatmentTimeline
+                              record={{
+                                ...timeline,
+                                treatmentId: item.id,
+                                patientName: item.patientName ?? null,
+                                intensity: item.intensity ?? null,
+                                endedAt: item.endedAt ? new Date(item.endedAt).getTime() : null,
+                                // La configuracion guardada del tratamiento manda sobre la reportada en vivo
+                                configuredHoldMs:
+                                  item.holdTimeSeconds != null ? item.holdTimeSeconds * 1000 : timeline.configuredHoldMs,
+                                configuredReleaseMs:
+                                  item.releaseTimeSeconds != null ? item.releaseTimeSeconds * 1000 : timeline.configuredReleaseMs,
+                              }}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -1,8 +1,37 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import axios from "@/lib/axios";
+import {
+  telemetryStore,
+  useLiveTelemetry,
+} from "@/modules/Telemetry/data/telemetry.store";
+import {
+  currentReading,
+  deviceStateMeta,
+  formatMeasurement,
+  formatSeconds,
+  historyChartData,
+} from "@/modules/Telemetry/deviceState";
+import { TelemetryIssueAlert } from "@/modules/Telemetry/telemetryIssueAlert";
+import { stateTimelineStore } from "@/modules/Telemetry/data/stateTimeline.store";
+import { TreatmentTimeline } from "@/modules/Telemetry/treatmentTimeline";
+import { bandFitStore } from "@/modules/Telemetry/data/bandFit.store";
+import { BandFitAlert } from "@/modules/Telemetry/bandFitAlert";
+import { treatmentPlanStore } from "@/modules/TreatmentPlan/data/treatmentPlan.store";
+import { describePlan, planAdherence } from "@/modules/TreatmentPlan/treatmentPlan.adherence";
+import { scheduleService } from "@/modules/Schedule/data/schedule.service";
+import type { ScheduleSlot } from "@/modules/Schedule/schedule.interface";
+import { checklistStore } from "@/modules/Checklist/data/checklist.store";
+import { checklistRecord, evaluateChecklist } from "@/modules/Checklist/checklist.evaluation";
+import { SafetyChecklist } from "@/modules/Checklist/safetyChecklist";
+import type { ChecklistAnswers } from "@/modules/Checklist/checklist.interface";
+import { OutcomeDialog, type FinishedTreatment } from "@/modules/Outcome/outcomeDialog";
+import { CircumferenceInputs } from "@/modules/LimbMeasurement/circumferenceInputs";
+import { parseCircumferences } from "@/modules/LimbMeasurement/limbMeasurement.volume";
+import { limbMeasurementService } from "@/modules/LimbMeasurement/data/limbMeasurement.service";
 import { toast } from "sonner";
 import {
   Line,
@@ -18,56 +47,12 @@ type Intensity = "low" | "medium" | "high";
 type TreatmentMode = "preset" | "custom";
 type TreatmentZone = "pantorrilla_izquierda" | "pantorrilla_derecha";
 type MobilityLevel = "independiente" | "movilidad_reducida" | "inmovil";
-type LiveReading = {
-  state?: string;
-  pressureKpa?: number | string | null;
-  targetPressureKpa?: number | string | null;
-  forceNewtons?: number | string | null;
-  temperatureC?: number | string | null;
-  cycleIndex?: number | string | null;
-  pumpOn?: boolean;
-  valveClosed?: boolean;
-  holdRemainingMs?: number | string | null;
-  configuredHoldTimeMs?: number | string | null;
-  configuredReleaseTimeMs?: number | string | null;
-  configuredCycleTarget?: number | string | null;
-  lastAck?: {
-    command?: string;
-    result?: string;
-  } | null;
-};
-
 const INTENSITIES: Array<{ key: Intensity; title: string; desc: string }> = [
   { key: "low", title: "Baja intensidad", desc: "Compresion suave y continua" },
   { key: "medium", title: "Media intensidad", desc: "Balance clinico estandar" },
   { key: "high", title: "Alta intensidad", desc: "Compresion avanzada" },
 ];
 
-function stateMeta(state?: string) {
-  const value = (state ?? "-").toUpperCase();
-  switch (value) {
-    case "INFLA":
-      return { label: "Inflando", className: "bg-cyan-500/15 text-cyan-400" };
-    case "MANTIENE":
-      return { label: "Manteniendo", className: "bg-emerald-500/15 text-emerald-400" };
-    case "DESINFLA":
-      return { label: "Desinflando", className: "bg-amber-500/15 text-amber-400" };
-    case "LISTO":
-      return { label: "Listo", className: "bg-emerald-500/15 text-emerald-400" };
-    case "ERROR":
-      return { label: "Error", className: "bg-red-500/15 text-red-400" };
-    case "MENU":
-      return { label: "En espera", className: "bg-zinc-500/15 text-zinc-300" };
-    default:
-      return { label: value, className: "bg-zinc-500/15 text-zinc-300" };
-  }
-}
-
-function asNumber(value: unknown, fallback = 0) {
-  const numeric = Number(value ?? fallback);
-  return Number.isFinite(numeric) ? numeric : fallback;
-}
-
 export function DoctorTreatmentNewPage() {
   const [patientId, setPatientId] = useState("");
   const [intensity, setIntensity] = useState<Intensity | null>(null);
@@ -81,53 +66,132 @@ export function DoctorTreatmentNewPage() {
     cycleTarget: 25,
   });
   const [patients, setPatients] = useState<PatientRow[]>([]);
-  const [live, setLive] = useState<any>(null);
-  const [activeTreatment, setActiveTreatment] = useState<any>(null);
-
-  const load = async () => {
-    const [patientsRes, liveRes] = await Promise.all([
-      axios.get("/doctor/patients"),
-      axios.get("/doctor/dashboard/live"),
-    ]);
-    setPatients(patientsRes.data);
-    setLive(liveRes.data);
-    setActiveTreatment(liveRes.data?.activeTreatment ?? null);
-  };
+  const [planId, setPlanId] = useState("");
+  const [searchParams] = useSearchParams();
+  const slotId = searchParams.get("slot");
+  const [slot, setSlot] = useState<ScheduleSlot | null>(null);
+  const checklistItems = checklistStore((s) => s.items);
+  const [checklistAnswers, setChecklistAnswers] = useState<ChecklistAnswers>({});
+  const [overrideReason, setOverrideReason] = useState("");
+  const [finished, setFinished] = useState<FinishedTreatment | null>(null);
+  const [preMeasurement, setPreMeasurement] = useState<Record<string, string>>({});
+  const lastActiveRef = useRef<FinishedTreatment | null>(null);
+  const plans = treatmentPlanStore((s) => s.plans);
+  const planTreatments = treatmentPlanStore((s) => s.treatments);
+  const { data: live, issue } = useLiveTelemetry("live");
+  const activeTreatment = live?.activeTreatment ?? null;
+  const bandFitWarnings = bandFitStore((s) => s.warnings);
+  const timeline = stateTimelineStore((s) =>
+    activeTreatment ? s.records[activeTreatment.id] : undefined,
+  );
 
   useEffect(() => {
+    const load = async () => {
+      const res = await axios.get("/doctor/patients");
+      setPatients(res.data);
+    };
     void load();
-    const timer = setInterval(() => void load(), 2000);
-    return () => clearInterval(timer);
+    void checklistStore.getState().fetchActive();
   }, []);
 
+  // Turno de la agenda: precarga paciente, zona, movilidad y protocolo
+  useEffect(() => {
+    if (!slotId) return;
+    scheduleService
+      .findOne(slotId)
+      .then((found) => {
+        setSlot(found);
+        setPatientId(found.patientId);
+        resetChecklist();
+        setPlanId("");
+        void treatmentPlanStore.getState().fetchByPatient(found.patientId);
+        setTreatmentZone(found.treatmentZone);
+        setMobilityLevel(found.mobilityLevel);
+        if (found.intensity === "custom") {
+          setMode("custom");
+          if (found.customConfig) setCustomConfig(found.customConfig);
+        } else {
+          setMode("preset");
+          setIntensity(found.intensity);
+        }
+      })
+      .catch((e) => {
+        console.error(e);
+        toast.error("No se pudo cargar la sesion agendada");
+      });
+  }, [slotId]);
+
   const currentPatientName = useMemo(() => {
     const row = patients.find((p) => p.id === activeTreatment?.patientId);
     return row?.fullname ?? activeTreatment?.patientName ?? activeTreatment?.patientId ?? "-";
   }, [patients, activeTreatment]);
 
-  const telemetryHistory = Array.isArray(live?.history) ? live.history : [];
-  const latestTelemetry = (telemetryHistory[telemetryHistory.length - 1] ??
-    live?.telemetry ??
-    null) as LiveReading | null;
-  const liveStatus = (live?.status ?? null) as LiveReading | null;
-  const monitorStatus: LiveReading = {
-    ...(liveStatus ?? {}),
-    ...(latestTelemetry ?? {}),
-    state: latestTelemetry?.state ?? liveStatus?.state,
-    lastAck: liveStatus?.lastAck ?? null,
-  };
-  const history =
-    telemetryHistory.map((item: any, idx: number) => ({
-      idx,
-      pressure: asNumber(item.pressureKpa),
-      temp: asNumber(item.temperatureC),
-    }));
-  const phase = stateMeta(monitorStatus.state);
-  const holdSeconds = Math.max(0, Math.floor(asNumber(monitorStatus.holdRemainingMs) / 1000));
-  const configuredHoldSeconds = Math.floor(asNumber(monitorStatus.configuredHoldTimeMs) / 1000);
-  const configuredReleaseSeconds = Math.floor(
-    asNumber(monitorStatus.configuredReleaseTimeMs) / 1000,
+  // Solo los planes vigentes del paciente elegido
+  const activePlans = useMemo(
+    () => plans.filter((plan) => plan.patientId === patientId && plan.status === "ACTIVE"),
+    [plans, patientId],
   );
+  const selectedPlan = activePlans.find((plan) => plan.id === planId) ?? null;
+  const selectedAdherence = useMemo(
+    () => (selectedPlan ? planAdherence(selectedPlan, planTreatments) : null),
+    [selectedPlan, planTreatments],
+  );
+  // Con un plan elegido, la pauta prescrita define zona e intensidad
+  const planLocked = !!selectedPlan;
+
+  // Las respuestas valen para un paciente y una zona
+  function resetChecklist() {
+    setChecklistAnswers({});
+    setOverrideReason("");
+    setPreMeasurement({});
+  }
+
+  const selectZone = (zone: TreatmentZone | "") => {
+    setTreatmentZone(zone);
+    resetChecklist();
+  };
+
+  const selectPatient = (id: string) => {
+    setPatientId(id);
+    setPlanId("");
+    resetChecklist();
+    if (id) void treatmentPlanStore.getState().fetchByPatient(id);
+  };
+
+  const selectPlan = (id: string) => {
+    setPlanId(id);
+    const plan = activePlans.find((item) => item.id === id);
+    if (!plan) return;
+    if (plan.treatmentZone !== treatmentZone) selectZone(plan.treatmentZone);
+    if (plan.intensity === "custom") {
+      setMode("custom");
+      if (plan.customConfig) setCustomConfig(plan.customConfig);
+    } else {
+      setMode("preset");
+      setIntensity(plan.intensity);
+    }
+  };
+
+  // Al terminar (stop o fin natural) se pide el resultado del paciente
+  useEffect(() => {
+    const previous = lastActiveRef.current;
+    if (previous && previous.id !== activeTreatment?.id) setFinished(previous);
+    lastActiveRef.current = activeTreatment
+      ? {
+          id: activeTreatment.id,
+          patientName: currentPatientName,
+          patientId: activeTreatment.patientId ?? null,
+          treatmentZone: activeTreatment.treatmentZone ?? null,
+        }
+      : null;
+  }, [activeTreatment, currentPatientName]);
+
+  const monitorStatus = currentReading(live);
+  const history = historyChartData(live?.history ?? []);
+  const phase = deviceStateMeta(monitorStatus.state);
+  const holdRemainingMs =
+    monitorStatus.holdRemainingMs == null ? null : Math.max(0, monitorStatus.holdRemainingMs);
+  const cyclesDone = monitorStatus.cycleIndex ?? activeTreatment?.cycleCount;
 
   const start = async () => {
     if (!patientId || !treatmentZone || !mobilityLevel) {
@@ -138,16 +202,59 @@ export function DoctorTreatmentNewPage() {
       toast.error("Selecciona una intensidad");
       return;
     }
+    const checklist = evaluateChecklist(checklistItems, checklistAnswers, overrideReason);
+    if (!checklist.canStart) {
+      toast.error(
+        checklist.missing.length
+          ? "Completa el checklist de seguridad"
+          : "Contraindicacion absoluta: ingresa la justificacion para continuar",
+      );
+      return;
+    }
+    const preCircumferences = parseCircumferences(preMeasurement);
+    if (!preCircumferences && Object.values(preMeasurement).some((v) => v.trim() !== "")) {
+      toast.error("Completa los 4 perimetros o deja la medicion vacia");
+      return;
+    }
     try {
-      await axios.post("/doctor/treatments/start", {
+      const res = await axios.post("/doctor/treatments/start", {
         patientId,
         treatmentZone,
         mobilityLevel,
         intensity: mode === "custom" ? "custom" : intensity,
         ...(mode === "custom" ? customConfig : {}),
+        planId: selectedPlan?.id,
+        scheduleId: slot && slot.patientId === patientId ? slot.id : undefined,
+        safetyChecklist: checklistRecord(checklistItems, checklistAnswers, overrideReason, treatmentZone),
       });
       toast.success("Tratamiento iniciado");
-      await load();
+      resetChecklist();
+      await telemetryStore.getState().refresh("live");
+      if (selectedPlan) void treatmentPlanStore.getState().fetchByPatient(patientId);
+      if (preCircumferences && treatmentZone) {
+        // La respuesta de start no garantiza el id: si falta, el tratamiento
+        // activo del paciente segun la telemetria recien pedida
+        const started = telemetryStore.getState().data.live?.activeTreatment;
+        const treatmentId =
+          typeof res.data?.id === "string"
+            ? res.data.id
+            : started?.patientId === patientId
+              ? started.id
+              : null;
+        // El tratamiento ya empezo: si falla solo se avisa
+        limbMeasurementService
+          .create({
+            patientId,
+            treatmentZone,
+            treatmentId,
+            timing: "pre",
+            circumferencesCm: preCircumferences,
+          })
+          .catch((e) => {
+            console.error(e);
+            toast.error("No se pudieron guardar los perimetros previos");
+          });
+      }
     } catch {
       toast.error("No se pudo iniciar el tratamiento");
     }
@@ -158,7 +265,11 @@ export function DoctorTreatmentNewPage() {
     try {
       await axios.post(`/doctor/treatments/${activeTreatment.id}/stop`);
       toast.success("Tratamiento detenido");
-      await load();
+      await telemetryStore.getState().refresh("live");
+      // La sesion cerrada cuenta para la adherencia del plan
+      if (activeTreatment.planId && activeTreatment.patientId) {
+        void treatmentPlanStore.getState().fetchByPatient(activeTreatment.patientId);
+      }
     } catch {
       toast.error("No se pudo detener");
     }
@@ -167,11 +278,26 @@ export function DoctorTreatmentNewPage() {
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-semibold tracking-tight">Sistema de tratamiento</h2>
+      {finished && (
+        <OutcomeDialog key={finished.id} treatment={finished} onClose={() => setFinished(null)} />
+      )}
+      {slot && !activeTreatment && (
+        <p className="rounded-md border border-cyan-500/40 bg-cyan-500/5 px-3 py-2 text-sm">
+          Sesion agendada: {slot.patientName ?? slot.patientId} - {new Date(slot.scheduledAt).toLocaleString()}
+        </p>
+      )}
+      <TelemetryIssueAlert issue={issue} />
+      {activeTreatment && <BandFitAlert warnings={bandFitWarnings} />}
 
       <Card className="border-cyan-300/20 bg-gradient-to-br from-card to-card/70">
         <CardHeader><CardTitle>Seleccion del protocolo</CardTitle></CardHeader>
         <CardContent>
-          <Tabs value={mode} onValueChange={(value) => setMode(value as TreatmentMode)}>
+          <Tabs
+            value={mode}
+            onValueChange={(value) => {
+              if (!planLocked) setMode(value as TreatmentMode);
+            }}
+          >
             <TabsList className="grid h-14 w-full grid-cols-2 rounded-md">
               <TabsTrigger value="preset" className="text-base">
                 Terapia predefinida
@@ -192,7 +318,7 @@ export function DoctorTreatmentNewPage() {
                       : "border-border hover:border-cyan-500/40")
                   }
                   onClick={() => setIntensity(item.key)}
-                  disabled={!!activeTreatment}
+                  disabled={!!activeTreatment || planLocked}
                 >
                   <p className="text-lg font-semibold">{item.title}</p>
                   <p className="text-sm text-muted-foreground mt-1">{item.desc}</p>
@@ -257,7 +383,7 @@ export function DoctorTreatmentNewPage() {
                             [key]: Number(event.target.value),
                           }))
                         }
-                        disabled={!!activeTreatment}
+                        disabled={!!activeTreatment || planLocked}
                         className="w-full accent-cyan-500"
                       />
                     </div>
@@ -276,7 +402,7 @@ export function DoctorTreatmentNewPage() {
             <select
               className="h-11 w-full rounded-md border bg-background px-3"
               value={patientId}
-              onChange={(e) => setPatientId(e.target.value)}
+              onChange={(e) => selectPatient(e.target.value)}
               disabled={!!activeTreatment}
             >
               <option value="">Selecciona paciente</option>
@@ -287,11 +413,31 @@ export function DoctorTreatmentNewPage() {
               ))}
             </select>
 
+            <select
+              className="h-11 w-full rounded-md border bg-background px-3"
+              value={planId}
+              onChange={(e) => selectPlan(e.target.value)}
+              disabled={!!activeTreatment || !patientId}
+            >
+              <option value="">Sin plan (sesion puntual)</option>
+              {activePlans.map((plan) => (
+                <option key={plan.id} value={plan.id}>
+                  {plan.treatmentZone.replaceAll("_", " ")} - {describePlan(plan)}
+                </option>
+              ))}
+            </select>
+            {selectedAdherence && (
+              <p className="text-xs text-muted-foreground">
+                Sesion {selectedAdherence.delivered + 1} de {selectedAdherence.prescribed} - adherencia{" "}
+                {selectedAdherence.percent}% ({selectedAdherence.delivered}/{selectedAdherence.expectedToDate} a la fecha)
+              </p>
+            )}
+
             <select
               className="h-11 w-full rounded-md border bg-background px-3"
               value={treatmentZone}
-              onChange={(e) => setTreatmentZone(e.target.value as TreatmentZone | "")}
-              disabled={!!activeTreatment}
+              onChange={(e) => selectZone(e.target.value as TreatmentZone | "")}
+              disabled={!!activeTreatment || planLocked}
             >
               <option value="">Selecciona zona del tratamiento</option>
               <option value="pantorrilla_izquierda">Pantorrilla izquierda</option>
@@ -311,9 +457,29 @@ export function DoctorTreatmentNewPage() {
             </select>
 
             {!activeTreatment && (
-              <Button className="w-full bg-emerald-600 hover:bg-emerald-500" onClick={() => void start()}>
-                Comenzar tratamiento
-              </Button>
+              <>
+                <SafetyChecklist
+                  items={checklistItems}
+                  zone={treatmentZone}
+                  answers={checklistAnswers}
+                  overrideReason={overrideReason}
+                  onAnswer={(id, answer) => setChecklistAnswers((current) => ({ ...current, [id]: answer }))}
+                  onOverrideReason={setOverrideReason}
+                />
+                {treatmentZone && (
+                  <div className="space-y-2 rounded-md border p-3">
+                    <p className="text-sm font-medium">Perimetros antes del tratamiento (opcional)</p>
+                    <CircumferenceInputs values={preMeasurement} onChange={setPreMeasurement} />
+                  </div>
+                )}
+                <Button
+                  className="w-full bg-emerald-600 hover:bg-emerald-500"
+                  disabled={!evaluateChecklist(checklistItems, checklistAnswers, overrideReason).canStart}
+                  onClick={() => void start()}
+                >
+                  Comenzar tratamiento
+                </Button>
+              </>
             )}
             {activeTreatment && (
               <Button className="w-full" variant="destructive" onClick={() => void stop()}>
@@ -331,15 +497,15 @@ export function DoctorTreatmentNewPage() {
             <div className="flex items-center justify-between"><span>Zona</span><span>{activeTreatment?.treatmentZone?.replaceAll("_", " ") ?? "-"}</span></div>
             <div className="flex items-center justify-between"><span>Movilidad</span><span>{activeTreatment?.mobilityLevel?.replaceAll("_", " ") ?? "-"}</span></div>
             <div className="flex items-center justify-between"><span>Estado</span><span className={`rounded-full px-2 py-1 text-xs ${phase.className}`}>{phase.label}</span></div>
-            <div className="flex items-center justify-between"><span>Presion</span><span>{asNumber(monitorStatus.pressureKpa).toFixed(2)} kPa</span></div>
-            <div className="flex items-center justify-between"><span>Temperatura</span><span>{asNumber(monitorStatus.temperatureC).toFixed(1)} C</span></div>
-            <div className="flex items-center justify-between"><span>Fuerza</span><span>{asNumber(monitorStatus.forceNewtons).toFixed(2)} N</span></div>
-            <div className="flex items-center justify-between"><span>Ciclos realizados</span><span>{asNumber(monitorStatus.cycleIndex ?? activeTreatment?.cycleCount)}</span></div>
-            <div className="flex items-center justify-between"><span>Config hold/release</span><span>{configuredHoldSeconds}s / {configuredReleaseSeconds}s</span></div>
-            <div className="flex items-center justify-between"><span>Config ciclos</span><span>{asNumber(monitorStatus.configuredCycleTarget)}</span></div>
+            <div className="flex items-center justify-between"><span>Presion</span><span>{formatMeasurement(monitorStatus.pressureKpa, 2, "kPa")}</span></div>
+            <div className="flex items-center justify-between"><span>Temperatura</span><span>{formatMeasurement(monitorStatus.temperatureC, 1, "C")}</span></div>
+            <div className="flex items-center justify-between"><span>Fuerza</span><span>{formatMeasurement(monitorStatus.forceNewtons, 2, "N")}</span></div>
+            <div className="flex items-center justify-between"><span>Ciclos realizados</span><span>{cyclesDone ?? "-"}</span></div>
+            <div className="flex items-center justify-between"><span>Config hold/release</span><span>{formatSeconds(monitorStatus.configuredHoldTimeMs)} / {formatSeconds(monitorStatus.configuredReleaseTimeMs)}</span></div>
+            <div className="flex items-center justify-between"><span>Config ciclos</span><span>{monitorStatus.configuredCycleTarget ?? "-"}</span></div>
             <div className="flex items-center justify-between"><span>Bomba</span><span>{monitorStatus.pumpOn ? "ON" : "OFF"}</span></div>
             <div className="flex items-center justify-between"><span>Valvula</span><span>{monitorStatus.valveClosed ? "CERRADA" : "ABIERTA"}</span></div>
-            <div className="flex items-center justify-between"><span>Hold restante</span><span>{holdSeconds} s</span></div>
+            <div className="flex items-center justify-between"><span>Hold restante</span><span>{formatSeconds(holdRemainingMs)}</span></div>
             <div className="flex items-center justify-between"><span>ACK</span><span className="text-xs">{monitorStatus.lastAck?.command ? `${monitorStatus.lastAck.command} ${monitorStatus.lastAck.result ?? ""}` : "-"}</span></div>
           </CardContent>
         </Card>
@@ -373,6 +539,15 @@ export function DoctorTreatmentNewPage() {
           </CardContent>
         </Card>
       </div>
+
+      {timeline && (
+        <Card>
+          <CardHeader><CardTitle>Linea de tiempo de estados</CardTitle></CardHeader>
+          <CardContent>
+            <TreatmentTimeline record={timeline} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
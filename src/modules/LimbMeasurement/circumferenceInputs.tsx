@@ -0,0 +1,41 @@
+// src/modules/LimbMeasurement/circumferenceInputs.tsx
+import { Input } from "@/components/ui/input";
+import { CIRCUMFERENCE_RANGE, LIMB_LANDMARKS, limbVolumeMl, parseCircumferences } from "./limbMeasurement.volume";
+
+interface CircumferenceInputsProps {
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+/** Perimetros (cm) en los puntos de referencia, con el volumen estimado */
+export function CircumferenceInputs({ values, onChange, disabled }: CircumferenceInputsProps) {
+  const parsed = parseCircumferences(values);
+  const volume = parsed ? limbVolumeMl(parsed) : null;
+
+  return (
+    <div className="space-y-1">
+      <div className="grid gap-2 sm:grid-cols-4">
+        {LIMB_LANDMARKS.map((landmark) => (
+          <label key={landmark.id} className="space-y-1 text-xs text-muted-foreground">
+            <span>{landmark.label}</span>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={CIRCUMFERENCE_RANGE.MIN}
+              max={CIRCUMFERENCE_RANGE.MAX}
+              step={0.1}
+              placeholder="cm"
+              value={values[landmark.id] ?? ""}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...values, [landmark.id]: e.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {volume != null ? `Volumen estimado ${Math.round(volume)} ml` : "Complete los 4 perimetros (cm)"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// src/modules/LimbMeasurement/data/limbMeasurement.service.ts
+import axios from "@/lib/axios";
+import type {
+  CreateLimbMeasurementDto,
+  LimbMeasurement,
+} from "../limbMeasurement.interface";
+
+export const limbMeasurementService = {
+  findByPatient: async (patientId: string): Promise<LimbMeasurement[]> => {
+    const res = await axios.get(`/doctor/patients/${patientId}/limb-measurements`);
+    return res.data;
+  },
+
+  create: async (data: CreateLimbMeasurementDto): Promise<LimbMeasurement> => {
+    const res = await axios.post(`/doctor/patients/${data.patientId}/limb-measurements`, data);
+    return res.data;
+  },
+};
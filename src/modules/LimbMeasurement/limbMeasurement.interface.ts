@@ -0,0 +1,19 @@
+// src/modules/LimbMeasurement/limbMeasurement.interface.ts
+
+export type LimbZone = "pantorrilla_izquierda" | "pantorrilla_derecha";
+export type MeasurementTiming = "pre" | "post";
+
+// Perimetros en cm por punto de referencia (ver LIMB_LANDMARKS)
+export type Circumferences = Record<string, number>;
+
+export interface LimbMeasurement {
+  id: string;
+  patientId: string;
+  treatmentZone: LimbZone;
+  treatmentId?: string | null; // tratamiento al que corresponde, si se midio antes/despues de uno
+  timing: MeasurementTiming;
+  circumferencesCm: Circumferences;
+  measuredAt: string;
+}
+
+export type CreateLimbMeasurementDto = Omit<LimbMeasurement, "id" | "measuredAt">;
@@ -0,0 +1,128 @@
+// src/modules/LimbMeasurement/limbMeasurement.volume.ts
+import type {
+  Circumferences,
+  LimbMeasurement,
+  LimbZone,
+} from "./limbMeasurement.interface";
+
+/**
+ * Volumen de la pierna a partir de perimetros tomados a alturas fijas sobre
+ * el maleolo interno: cada tramo se aproxima por un tronco de cono
+ * V = h (C1² + C1·C2 + C2²) / 12π, con C en cm y V en ml.
+ */
+
+export const LIMB_LANDMARKS = [
+  { id: "tobillo", label: "Tobillo (maleolo)", heightCm: 0 },
+  { id: "h10", label: "+10 cm", heightCm: 10 },
+  { id: "h20", label: "+20 cm (pantorrilla)", heightCm: 20 },
+  { id: "h30", label: "+30 cm (bajo rodilla)", heightCm: 30 },
+] as const;
+
+export const LIMB_ZONE_LABEL: Record<LimbZone, string> = {
+  pantorrilla_izquierda: "Izquierda",
+  pantorrilla_derecha: "Derecha",
+};
+
+// Rango aceptado para un perimetro de pierna adulta
+export const CIRCUMFERENCE_RANGE = { MIN: 10, MAX: 90 } as const;
+
+export function validCircumference(value: number) {
+  return Number.isFinite(value) && value >= CIRCUMFERENCE_RANGE.MIN && value <= CIRCUMFERENCE_RANGE.MAX;
+}
+
+/** null si falta algun punto de referencia */
+export function limbVolumeMl(circumferences: Circumferences): number | null {
+  const values = LIMB_LANDMARKS.map((l) => circumferences[l.id]);
+  if (values.some((v) => v == null || !validCircumference(v))) return null;
+  let volume = 0;
+  for (let i = 1; i < LIMB_LANDMARKS.length; i++) {
+    const h = LIMB_LANDMARKS[i].heightCm - LIMB_LANDMARKS[i - 1].heightCm;
+    const [c1, c2] = [values[i - 1], values[i]];
+    volume += (h * (c1 * c1 + c1 * c2 + c2 * c2)) / (12 * Math.PI);
+  }
+  return volume;
+}
+
+function percentChange(from: number, to: number) {
+  return from === 0 ? 0 : ((to - from) / from) * 100;
+}
+
+/** Una fila por dia de medicion con el volumen de cada pierna (ultima del dia) */
+export function volumeTrend(measurements: LimbMeasurement[]) {
+  const byDay = new Map<string, { date: string; izquierda?: number; derecha?: number }>();
+  const sorted = [...measurements].sort((a, b) => a.measuredAt.localeCompare(b.measuredAt));
+  for (const m of sorted) {
+    const volume = limbVolumeMl(m.circumferencesCm);
+    if (volume == null) continue;
+    const date = new Date(m.measuredAt).toLocaleDateString();
+    const row = byDay.get(date) ?? { date };
+    if (m.treatmentZone === "pantorrilla_izquierda") row.izquierda = Math.round(volume);
+    else row.derecha = Math.round(volume);
+    byDay.set(date, row);
+  }
+  return [...byDay.values()];
+}
+
+export interface LimbSummary {
+  zone: LimbZone;
+  baselineMl: number | null; // primera medicion
+  latestMl: number | null;
+  changePercent: number | null; // ultima vs primera (negativo = reduce edema)
+  lastSession: { preMl: number; postMl: number; changePercent: number } | null;
+}
+
+export function limbSummary(measurements: LimbMeasurement[], zone: LimbZone): LimbSummary {
+  const rows = measurements
+    .filter((m) => m.treatmentZone === zone)
+    .sort((a, b) => a.measuredAt.localeCompare(b.measuredAt))
+    .map((m) => ({ ...m, volume: limbVolumeMl(m.circumferencesCm) }))
+    .filter((m): m is typeof m & { volume: number } => m.volume != null);
+
+  const baseline = rows[0]?.volume ?? null;
+  const latest = rows.at(-1)?.volume ?? null;
+
+  // Ultimo tratamiento con medicion antes y despues
+  let lastSession: LimbSummary["lastSession"] = null;
+  for (let i = rows.length - 1; i >= 0 && !lastSession; i--) {
+    const post = rows[i];
+    if (post.timing !== "post" || !post.treatmentId) continue;
+    const pre = rows.find((r) => r.timing === "pre" && r.treatmentId === post.treatmentId);
+    if (pre) {
+      lastSession = {
+        preMl: pre.volume,
+        postMl: post.volume,
+        changePercent: percentChange(pre.volume, post.volume),
+      };
+    }
+  }
+
+  return {
+    zone,
+    baselineMl: baseline,
+    latestMl: latest,
+    changePercent: baseline != null && latest != null && rows.length > 1 ? percentChange(baseline, latest) : null,
+    lastSession,
+  };
+}
+
+/** Diferencia entre piernas respecto a la menor (asimetria del edema) */
+export function limbAsymmetryPercent(left: number | null, right: number | null) {
+  if (left == null || right == null) return null;
+  return percentChange(Math.min(left, right), Math.max(left, right));
+}
+
+/** Valores del formulario a perimetros; null si falta alguno o esta fuera de rango */
+export function parseCircumferences(values: Record<string, string>): Circumferences | null {
+  const parsed: Circumferences = {};
+  for (const landmark of LIMB_LANDMARKS) {
+    const raw = values[landmark.id]?.trim();
+    const value = raw ? Number(raw.replace(",", ".")) : NaN;
+    if (!validCircumference(value)) return null;
+    parsed[landmark.id] = value;
+  }
+  return parsed;
+}
+
+export function isLimbZone(zone: string | null | undefined): zone is LimbZone {
+  return zone === "pantorrilla_izquierda" || zone === "pantorrilla_derecha";
+}
@@ -0,0 +1,188 @@
+// src/modules/LimbMeasurement/limbMeasurementPanel.tsx
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { limbMeasurementService } from "./data/limbMeasurement.service";
+import { CircumferenceInputs } from "./circumferenceInputs";
+import {
+  LIMB_ZONE_LABEL,
+  limbAsymmetryPercent,
+  limbSummary,
+  parseCircumferences,
+  volumeTrend,
+  type LimbSummary,
+} from "./limbMeasurement.volume";
+import type {
+  LimbMeasurement,
+  LimbZone,
+  MeasurementTiming,
+} from "./limbMeasurement.interface";
+
+function formatMl(value: number | null) {
+  return value == null ? "-" : `${Math.round(value)} ml`;
+}
+
+function formatChange(value: number | null) {
+  if (value == null) return "-";
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+function SummaryColumn({ summary }: { summary: LimbSummary }) {
+  const reduced = summary.changePercent != null && summary.changePercent < 0;
+  return (
+    <div className="space-y-1 rounded-md border p-3 text-sm">
+      <p className="font-medium">{LIMB_ZONE_LABEL[summary.zone]}</p>
+      <div className="flex justify-between"><span>Inicial</span><span>{formatMl(summary.baselineMl)}</span></div>
+      <div className="flex justify-between"><span>Ultima</span><span>{formatMl(summary.latestMl)}</span></div>
+      <div className="flex justify-between">
+        <span>Cambio</span>
+        <span className={reduced ? "text-emerald-500" : ""}>{formatChange(summary.changePercent)}</span>
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Ultima sesion (pre/post)</span>
+        <span>
+          {summary.lastSession
+            ? `${formatMl(summary.lastSession.preMl)} / ${formatMl(summary.lastSession.postMl)} (${formatChange(summary.lastSession.changePercent)})`
+            : "-"}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/** Perimetros y volumen de ambas piernas en la ficha del paciente */
+export function LimbMeasurementPanel({ patientId }: { patientId: string }) {
+  const [measurements, setMeasurements] = useState<LimbMeasurement[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [zone, setZone] = useState<LimbZone>("pantorrilla_izquierda");
+  const [timing, setTiming] = useState<MeasurementTiming>("pre");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // `isCancelled` descarta la respuesta si el paciente cambio mientras tanto
+  const load = useCallback(
+    async (isCancelled: () => boolean = () => false) => {
+      try {
+        const rows = await limbMeasurementService.findByPatient(patientId);
+        if (isCancelled()) return;
+        setMeasurements(rows);
+        setError(null);
+      } catch (e) {
+        console.error(e);
+        if (!isCancelled()) {
+          setError(e instanceof Error ? e.message : "No se pudieron cargar las mediciones");
+        }
+      }
+    },
+    [patientId],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    void load(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  const trend = useMemo(() => volumeTrend(measurements), [measurements]);
+  const left = useMemo(() => limbSummary(measurements, "pantorrilla_izquierda"), [measurements]);
+  const right = useMemo(() => limbSummary(measurements, "pantorrilla_derecha"), [measurements]);
+  const asymmetry = limbAsymmetryPercent(left.latestMl, right.latestMl);
+  const circumferences = parseCircumferences(values);
+
+  const submit = async () => {
+    if (!circumferences) return;
+    setSaving(true);
+    try {
+      await limbMeasurementService.create({
+        patientId,
+        treatmentZone: zone,
+        timing,
+        circumferencesCm: circumferences,
+      });
+      toast.success("Medicion registrada");
+      setValues({});
+      await load();
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : "No se pudo registrar la medicion");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>Perimetros y edema</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="grid gap-2 md:grid-cols-2">
+          <SummaryColumn summary={left} />
+          <SummaryColumn summary={right} />
+        </div>
+        {asymmetry != null && (
+          <p className="text-xs text-muted-foreground">
+            Diferencia entre piernas: {asymmetry.toFixed(1)}%
+          </p>
+        )}
+
+        {trend.length > 0 ? (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                <XAxis dataKey="date" />
+                <YAxis unit=" ml" domain={["auto", "auto"]} width={70} />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="izquierda" name="Izquierda" stroke="#00d4ff" connectNulls />
+                <Line type="monotone" dataKey="derecha" name="Derecha" stroke="#f59e0b" connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          !error && <p className="text-sm text-muted-foreground">Sin mediciones registradas.</p>
+        )}
+
+        <div className="space-y-2 rounded-md border border-dashed p-3">
+          <p className="text-sm font-medium">Nueva medicion</p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <select
+              className="h-10 rounded-md border bg-background px-3"
+              value={zone}
+              onChange={(e) => setZone(e.target.value as LimbZone)}
+            >
+              <option value="pantorrilla_izquierda">Pantorrilla izquierda</option>
+              <option value="pantorrilla_derecha">Pantorrilla derecha</option>
+            </select>
+            <select
+              className="h-10 rounded-md border bg-background px-3"
+              value={timing}
+              onChange={(e) => setTiming(e.target.value as MeasurementTiming)}
+            >
+              <option value="pre">Antes del tratamiento</option>
+              <option value="post">Despues del tratamiento</option>
+            </select>
+          </div>
+          <CircumferenceInputs values={values} onChange={setValues} />
+          <Button className="w-full" disabled={!circumferences || saving} onClick={() => void submit()}>
+            Registrar medicion
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+// src/modules/Monitoring/bandFitDetector.ts
+import { BAND_FIT_LIMITS } from "@/types/constants";
+
+/**
+ * Detección de fugas y banda mal ajustada. Durante MANTIENE la presión no
+ * debería caer más rápido que el límite configurado, y cada ciclo debería
+ * llegar al objetivo con un solo inflado. Si el equipo informa su estado
+ * se usa; si no, las fases se deducen de la presión respecto al objetivo.
+ */
+
+export type BandFitIssueKind = "leak" | "reinflation";
+
+export interface BandFitLimits {
+  targetPressureKpa: number;
+  maxHoldDecayKpaPerS: number;
+  minHoldMs: number;
+  maxReinflations: number;
+  cyclesForSession: number;
+}
+
+export interface BandFitWarning {
+  kind: BandFitIssueKind;
+  scope: "cycle" | "session";
+  cycle: number; // ciclo en que se detectó (para "session", el último marcado)
+  value: number; // kPa/s de caída o cantidad de re-inflados
+  limit: number;
+  at: number; // epoch ms
+}
+
+export interface BandFitReading {
+  at: number;
+  pressure: number;
+  state?: string;
+  cycleIndex?: number;
+}
+
+export interface BandFitDetector {
+  limits: BandFitLimits;
+  /** Evalúa una lectura; devuelve los avisos nuevos (cada uno se emite una sola vez) */
+  push: (reading: BandFitReading) => BandFitWarning[];
+}
+
+export const BAND_FIT_LABEL: Record<BandFitIssueKind, string> = {
+  leak: "Fuga en mantenimiento",
+  reinflation: "Re-inflados repetidos",
+};
+
+/** "Fuga en mantenimiento (ciclo 4): 0.35 kPa/s (límite 0.20 kPa/s)" */
+export function formatBandFitWarning(warning: BandFitWarning): string {
+  const value =
+    warning.kind === "leak"
+      ? `${warning.value.toFixed(2)} kPa/s (límite ${warning.limit.toFixed(2)} kPa/s)`
+      : `${warning.value} re-inflados (límite ${warning.limit})`;
+  const where =
+    warning.scope === "session"
+      ? "en varios ciclos de la sesión; revise el ajuste de la banda"
+      : `ciclo ${warning.cycle}`;
+  return `${BAND_FIT_LABEL[warning.kind]} (${where}): ${value}`;
+}
+
+export function sessionBandFitLimits(targetPressureKpa: number): BandFitLimits {
+  return {
+    targetPressureKpa,
+    maxHoldDecayKpaPerS: BAND_FIT_LIMITS.MAX_HOLD_DECAY_KPA_PER_S,
+    minHoldMs: BAND_FIT_LIMITS.MIN_HOLD_MS,
+    maxReinflations: BAND_FIT_LIMITS.MAX_REINFLATIONS,
+    cyclesForSession: BAND_FIT_LIMITS.CYCLES_FOR_SESSION,
+  };
+}
+
+/** Caída por segundo estimada por mínimos cuadrados (positiva = pierde presión) */
+function decayPerSecond(samples: Array<{ at: number; pressure: number }>) {
+  const n = samples.length;
+  const t0 = samples[0].at;
+  const mx = samples.reduce((acc, s) => acc + (s.at - t0), 0) / n;
+  const my = samples.reduce((acc, s) => acc + s.pressure, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (const s of samples) {
+    num += (s.at - t0 - mx) * (s.pressure - my);
+    den += (s.at - t0 - mx) ** 2;
+  }
+  return den === 0 ? 0 : (-num / den) * 1000;
+}
+
+export function createBandFitDetector(limits: BandFitLimits): BandFitDetector {
+  const holdLevel = limits.targetPressureKpa * BAND_FIT_LIMITS.HOLD_RATIO;
+  const restLevel = limits.targetPressureKpa * BAND_FIT_LIMITS.REST_RATIO;
+  const holdExit = holdLevel * 0.95; // histéresis: el ruido no cuenta como re-inflado
+
+  let cycle = 0;
+  let inCycle = false;
+  let deflated = false; // pasó por DESINFLA: el próximo INFLA abre ciclo
+  let inflations = 0;
+  let inflating = false;
+  let holding = false;
+  let hold: Array<{ at: number; pressure: number }> = [];
+  let cycleFlags = new Set<BandFitIssueKind>();
+  let flagged = 0;
+  const sessionFlags = new Set<BandFitIssueKind>();
+
+  const startCycle = (index?: number) => {
+    cycle = index ?? cycle + 1;
+    inCycle = true;
+    deflated = false;
+    inflations = 0;
+    cycleFlags = new Set();
+  };
+
+  const flag = (kind: BandFitIssueKind, value: number, limit: number, at: number) => {
+    const out: BandFitWarning[] = [];
+    if (cycleFlags.has(kind)) return out;
+    if (cycleFlags.size === 0) flagged += 1;
+    cycleFlags.add(kind);
+    out.push({ kind, scope: "cycle", cycle, value, limit, at });
+    if (flagged >= limits.cyclesForSession && !sessionFlags.has(kind)) {
+      sessionFlags.add(kind);
+      out.push({ kind, scope: "session", cycle, value, limit, at });
+    }
+    return out;
+  };
+
+  return {
+    limits,
+    push(reading) {
+      const { at, pressure, state, cycleIndex } = reading;
+      let nowInflating: boolean;
+      let nowHolding: boolean;
+
+      if (state !== undefined) {
+        nowInflating = state === "INFLA";
+        nowHolding = state === "MANTIENE";
+        const active = nowInflating || nowHolding || state === "DESINFLA";
+        if (!active) inCycle = false;
+        else if (
+          nowInflating &&
+          (!inCycle || deflated || (cycleIndex !== undefined && cycleIndex !== cycle))
+        ) {
+          startCycle(cycleIndex);
+        }
+        if (state === "DESINFLA") deflated = true;
+      } else {
+        // Sin estado: el ciclo es el tramo sobre la presión de reposo
+        if (!inCycle && pressure >= restLevel) startCycle(cycleIndex);
+        else if (inCycle && pressure < restLevel) inCycle = false;
+        nowHolding = holding ? pressure >= holdExit : pressure >= holdLevel;
+        nowInflating = nowHolding; // cada entrada a la zona de mantenimiento
+      }
+
+      const out: BandFitWarning[] = [];
+      if (inCycle) {
+        // Cada nueva subida dentro del mismo ciclo es un re-inflado
+        if (nowInflating && !inflating) {
+          inflations += 1;
+          const reinflations = inflations - 1;
+          if (reinflations >= limits.maxReinflations) {
+            out.push(...flag("reinflation", reinflations, limits.maxReinflations, at));
+          }
+        }
+
+        if (nowHolding) {
+          hold.push({ at, pressure });
+          if (at - hold[0].at >= limits.minHoldMs && hold.length >= 3) {
+            const decay = decayPerSecond(hold);
+            if (decay > limits.maxHoldDecayKpaPerS) {
+              out.push(...flag("leak", decay, limits.maxHoldDecayKpaPerS, at));
+            }
+          }
+        }
+      }
+
+      inflating = inCycle && nowInflating;
+      holding = inCycle && nowHolding;
+      if (!holding) hold = [];
+      return out;
+    },
+  };
+}
@@ -0,0 +1,177 @@
+// src/modules/Monitoring/bleTransport.ts
+import type { SerialPort } from "./serial.interface";
+import type {
+  BluetoothDevice,
+  BluetoothRemoteGATTCharacteristic,
+} from "./bluetooth.interface";
+
+/**
+ * Transporte BLE con servicio estilo Nordic UART (NUS).
+ * Se presenta como un SerialPort más, así openPort aplica el mismo
+ * troceo en líneas, tramas y canal de comandos que por USB.
+ */
+
+export const NUS_SERVICE = "6e400001-b5a3-f393-e0a9-e50e24dcca9e";
+const NUS_RX = "6e400002-b5a3-f393-e0a9-e50e24dcca9e"; // navegador → equipo
+const NUS_TX = "6e400003-b5a3-f393-e0a9-e50e24dcca9e"; // equipo → navegador
+
+const BLE_CHUNK_BYTES = 20; // MTU por defecto (23) menos cabecera ATT
+
+export function isWebBluetoothSupported(): boolean {
+  return typeof navigator !== "undefined" && "bluetooth" in navigator;
+}
+
+export class BleSerialPort implements SerialPort {
+  readonly device: BluetoothDevice;
+
+  private _readable: ReadableStream<Uint8Array> | null = null;
+  private _writable: WritableStream<Uint8Array> | null = null;
+  private readController: ReadableStreamDefaultController<Uint8Array> | null =
+    null;
+  private writeController: WritableStreamDefaultController | null = null;
+  private tx: BluetoothRemoteGATTCharacteristic | null = null;
+
+  constructor(device: BluetoothDevice) {
+    this.device = device;
+  }
+
+  get label() {
+    return `BLE · ${this.device.name ?? "sin nombre"}`;
+  }
+
+  get readable() {
+    return this._readable;
+  }
+
+  get writable() {
+    return this._writable;
+  }
+
+  async open(): Promise<void> {
+    const gatt = this.device.gatt;
+    if (!gatt) throw new Error("El dispositivo BLE no expone GATT.");
+
+    const server = await gatt.connect();
+    let tx: BluetoothRemoteGATTCharacteristic | null = null;
+    try {
+      const service = await server.getPrimaryService(NUS_SERVICE);
+      const rx = await service.getCharacteristic(NUS_RX);
+      tx = await service.getCharacteristic(NUS_TX);
+
+      this._readable = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          this.readController = controller;
+        },
+        cancel: () => {
+          this.readController = null;
+        },
+      });
+
+      this._writable = new WritableStream<Uint8Array>({
+        start: (controller) => {
+          this.writeController = controller;
+        },
+        write: async (chunk) => {
+          for (let i = 0; i < chunk.length; i += BLE_CHUNK_BYTES) {
+            const part = chunk.slice(i, i + BLE_CHUNK_BYTES);
+            if (rx.writeValueWithoutResponse) {
+              await rx.writeValueWithoutResponse(part);
+            } else {
+              await rx.writeValue(part);
+            }
+          }
+        },
+      });
+
+      tx.addEventListener("characteristicvaluechanged", this.onNotify);
+      this.device.addEventListener("gattserverdisconnected", this.onDisconnect);
+      await tx.startNotifications();
+      this.tx = tx;
+    } catch (e: unknown) {
+      // No deja el enlace abierto ni los listeners colgados de un intento fallido
+      tx?.removeEventListener("characteristicvaluechanged", this.onNotify);
+      this.device.removeEventListener(
+        "gattserverdisconnected",
+        this.onDisconnect,
+      );
+      try {
+        gatt.disconnect();
+      } catch {
+        // el enlace ya se había caído
+      }
+      throw e;
+    }
+  }
+
+  async close(): Promise<void> {
+    const tx = this.tx;
+    this.tx = null;
+    this.device.removeEventListener(
+      "gattserverdisconnected",
+      this.onDisconnect,
+    );
+    if (tx) {
+      tx.removeEventListener("characteristicvaluechanged", this.onNotify);
+      try {
+        await tx.stopNotifications();
+      } catch {
+        // el enlace ya se había caído
+      }
+    }
+    this.device.gatt?.disconnect();
+    this.fail(new Error("Puerto cerrado"));
+  }
+
+  private onNotify = (event: Event) => {
+    const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+    if (!value || !this.readController) return;
+    // copia: el navegador puede reutilizar el buffer de la notificación
+    const bytes = new Uint8Array(value.byteLength);
+    bytes.set(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+    this.readController.enqueue(bytes);
+  };
+
+  private onDisconnect = () => {
+    this.fail(new Error("Se perdió la conexión BLE con el dispositivo."));
+  };
+
+  /** Corta los pipes que openPort tenga enganchados */
+  private fail(error: Error) {
+    try {
+      this.readController?.error(error);
+    } catch {
+      // ya cancelado
+    }
+    try {
+      this.writeController?.error(error);
+    } catch {
+      // ya cerrado
+    }
+    this.readController = null;
+    this.writeController = null;
+    this._readable = null;
+    this._writable = null;
+  }
+}
+
+export function isBlePort(port: SerialPort): port is BleSerialPort {
+  return port instanceof BleSerialPort;
+}
+
+export async function requestBlePort(): Promise<BleSerialPort> {
+  if (!isWebBluetoothSupported()) {
+    throw new Error(
+      "Web Bluetooth no está disponible. Use Chrome/Edge en HTTPS.",
+    );
+  }
+  const device = await navigator.bluetooth.requestDevice({
+    filters: [{ services: [NUS_SERVICE] }],
+  });
+  return new BleSerialPort(device);
+}
+
+/** Equipos BLE ya autorizados (solo navegadores con getDevices) */
+export async function getAuthorizedBleDevices(): Promise<BluetoothDevice[]> {
+  if (!isWebBluetoothSupported() || !navigator.bluetooth.getDevices) return [];
+  return navigator.bluetooth.getDevices();
+}
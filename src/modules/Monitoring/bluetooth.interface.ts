@@ -0,0 +1,45 @@
+// src/modules/Monitoring/bluetooth.interface.ts
+// Subconjunto de Web Bluetooth que usamos (TS no lo trae en lib.dom)
+
+export interface BluetoothRemoteGATTCharacteristic extends EventTarget {
+  readonly value: DataView | null;
+  startNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
+  stopNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
+  writeValue(value: BufferSource): Promise<void>;
+  writeValueWithoutResponse?(value: BufferSource): Promise<void>;
+}
+
+export interface BluetoothRemoteGATTService {
+  getCharacteristic(uuid: string): Promise<BluetoothRemoteGATTCharacteristic>;
+}
+
+export interface BluetoothRemoteGATTServer {
+  readonly connected: boolean;
+  connect(): Promise<BluetoothRemoteGATTServer>;
+  disconnect(): void;
+  getPrimaryService(uuid: string): Promise<BluetoothRemoteGATTService>;
+}
+
+export interface BluetoothDevice extends EventTarget {
+  readonly id: string;
+  readonly name?: string;
+  readonly gatt?: BluetoothRemoteGATTServer;
+}
+
+export interface RequestDeviceOptions {
+  filters?: Array<{ services?: string[]; name?: string; namePrefix?: string }>;
+  optionalServices?: string[];
+  acceptAllDevices?: boolean;
+}
+
+export interface Bluetooth {
+  requestDevice(options: RequestDeviceOptions): Promise<BluetoothDevice>;
+  getDevices?(): Promise<BluetoothDevice[]>;
+}
+
+// Augmentación global para que `navigator.bluetooth` compile
+declare global {
+  interface Navigator {
+    bluetooth: Bluetooth;
+  }
+}
@@ -0,0 +1,211 @@
+// src/modules/Monitoring/commandChannel.ts
+import { writeLine, type SerialIO } from "./serialAdapter";
+
+/**
+ * Canal de comandos con confirmación sobre SerialIO.
+ *
+ * Navegador → ESP:  !<id> <COMANDO> [args]
+ * ESP → navegador:  {"ack":<id>,"command":"<COMANDO>","result":"ACK"|"NACK","reason":"...","data":{...}}
+ *
+ * Los reintentos reutilizan el mismo id para que el firmware pueda
+ * descartar duplicados si lo que se perdió fue la confirmación.
+ */
+
+export type AckResult = "ACK" | "NACK";
+
+export interface CommandAck {
+  id: number;
+  command: string;
+  result: AckResult;
+  reason?: string;
+  data?: Record<string, unknown>; // respuesta de comandos de consulta
+}
+
+export interface CommandPolicy {
+  timeoutMs: number; // espera por intento
+  retries: number; // reintentos tras un timeout (NACK no se reintenta)
+  retryDelayMs: number;
+}
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  timeoutMs: 1500,
+  retries: 2,
+  retryDelayMs: 300,
+};
+
+export type CommandErrorKind = "timeout" | "nack" | "closed";
+
+export class CommandError extends Error {
+  readonly kind: CommandErrorKind;
+  readonly command: string;
+
+  constructor(kind: CommandErrorKind, command: string, message: string) {
+    super(message);
+    this.name = "CommandError";
+    this.kind = kind;
+    this.command = command;
+  }
+}
+
+export interface CommandChannel {
+  /** Envía un comando y resuelve con su ACK; rechaza con CommandError */
+  send: (
+    command: string,
+    args?: string,
+    policy?: Partial<CommandPolicy>,
+  ) => Promise<CommandAck>;
+  /** Consume la línea si es una confirmación; devuelve false si no lo es */
+  handleLine: (line: string) => boolean;
+  /** Rechaza lo pendiente (p. ej. al desconectar) */
+  dispose: () => void;
+}
+
+type Pending = {
+  command: string;
+  resolve: (ack: CommandAck) => void;
+  reject: (error: CommandError) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+const MAX_COMMAND_ID = 9999;
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+/** Interpreta una línea de confirmación; null si no lo es */
+export function parseAck(line: string): CommandAck | null {
+  const s = line.trim();
+  if (!s.startsWith("{") || !s.includes('"ack"')) return null;
+  try {
+    const obj = JSON.parse(s) as Partial<Record<string, unknown>>;
+    const id = Number(obj.ack);
+    const result = String(obj.result ?? "").toUpperCase();
+    if (!Number.isInteger(id) || (result !== "ACK" && result !== "NACK")) {
+      return null;
+    }
+    return {
+      id,
+      command: String(obj.command ?? ""),
+      result,
+      reason: typeof obj.reason === "string" ? obj.reason : undefined,
+      data:
+        typeof obj.data === "object" && obj.data !== null
+          ? (obj.data as Record<string, unknown>)
+          : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Crea el canal. `policies` permite ajustar timeouts/reintentos por
+ * comando (p. ej. { S: { retries: 5 } } para que la parada insista más).
+ * `onWrite` ve cada línea escrita, reintentos incluidos.
+ */
+export function createCommandChannel(
+  io: SerialIO,
+  policies: Record<string, Partial<CommandPolicy>> = {},
+  onWrite?: (line: string) => void,
+): CommandChannel {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+  let disposed = false;
+
+  const waitForAck = (id: number, command: string, timeoutMs: number) =>
+    new Promise<CommandAck>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(
+          new CommandError(
+            "timeout",
+            command,
+            `Sin confirmación de ${command} en ${timeoutMs} ms.`,
+          ),
+        );
+      }, timeoutMs);
+      pending.set(id, { command, resolve, reject, timer });
+    });
+
+  const forget = (id: number) => {
+    const entry = pending.get(id);
+    if (entry) clearTimeout(entry.timer);
+    pending.delete(id);
+  };
+
+  const send: CommandChannel["send"] = async (command, args, override) => {
+    const policy = {
+      ...DEFAULT_COMMAND_POLICY,
+      ...policies[command],
+      ...override,
+    };
+    const id = nextId;
+    nextId = nextId >= MAX_COMMAND_ID ? 1 : nextId + 1;
+    const line = `!${id} ${command}${args ? ` ${args}` : ""}`;
+
+    for (let attempt = 0; attempt <= policy.retries; attempt++) {
+      if (disposed) {
+        throw new CommandError("closed", command, "El puerto está cerrado.");
+      }
+      const ack = waitForAck(id, command, policy.timeoutMs);
+      try {
+        await writeLine(io.writer, line);
+        onWrite?.(line);
+      } catch {
+        forget(id);
+        throw new CommandError(
+          "closed",
+          command,
+          `No se pudo escribir ${command} en el puerto.`,
+        );
+      }
+      try {
+        return await ack;
+      } catch (e: unknown) {
+        if (!(e instanceof CommandError) || e.kind !== "timeout") throw e;
+        if (attempt < policy.retries) await sleep(policy.retryDelayMs);
+      }
+    }
+    throw new CommandError(
+      "timeout",
+      command,
+      `El dispositivo no confirmó ${command} tras ${policy.retries + 1} intentos.`,
+    );
+  };
+
+  const handleLine = (line: string): boolean => {
+    const ack = parseAck(line);
+    if (!ack) return false;
+    const entry = pending.get(ack.id);
+    // Una confirmación tardía (tras timeout) se consume igualmente
+    if (!entry) return true;
+    clearTimeout(entry.timer);
+    pending.delete(ack.id);
+    if (ack.result === "ACK") {
+      entry.resolve(ack);
+    } else {
+      entry.reject(
+        new CommandError(
+          "nack",
+          entry.command,
+          `El dispositivo rechazó ${entry.command}${ack.reason ? `: ${ack.reason}` : "."}`,
+        ),
+      );
+    }
+    return true;
+  };
+
+  const dispose = () => {
+    disposed = true;
+    for (const [id, entry] of pending) {
+      clearTimeout(entry.timer);
+      entry.reject(
+        new CommandError("closed", entry.command, "El puerto se cerró."),
+      );
+      pending.delete(id);
+    }
+  };
+
+  return { send, handleLine, dispose };
+}
@@ -0,0 +1,76 @@
+// src/modules/Monitoring/consoleFeed.ts
+
+/**
+ * Buffer circular de líneas para la consola serie: cada línea cruda tal
+ * como llegó, antes de quitarle la trama (lecturas, ACKs, lo que ningún
+ * parser entiende y las tramas con CRC inválido), y todo lo que se
+ * escribe al equipo, a mano o desde el canal de comandos.
+ */
+
+export type ConsoleLineKind =
+  | "reading"
+  | "ack"
+  | "discarded"
+  | "corrupted"
+  | "sent";
+
+export interface ConsoleLine {
+  id: number;
+  t: number; // epoch ms
+  kind: ConsoleLineKind;
+  text: string;
+}
+
+export interface ConsoleFeed {
+  push: (kind: ConsoleLineKind, text: string) => void;
+  lines: () => ConsoleLine[];
+  clear: () => void;
+  /** Avisa cuando hay líneas nuevas; devuelve la baja */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export function createConsoleFeed(limit = 500): ConsoleFeed {
+  let buffer: ConsoleLine[] = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    push(kind, text) {
+      buffer.push({ id: nextId++, t: Date.now(), kind, text });
+      if (buffer.length > limit) buffer = buffer.slice(-limit);
+      notify();
+    },
+    lines: () => [...buffer],
+    clear() {
+      buffer = [];
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+// Historial de comandos de la consola, compartido entre sesiones
+const HISTORY_KEY = "monitoring_console_history";
+const HISTORY_SIZE = 50;
+
+export function loadCommandHistory(): string[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? "[]");
+    return Array.isArray(list) ? list.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Agrega el comando al final (sin duplicar el anterior) y lo persiste */
+export function pushCommandHistory(history: string[], command: string) {
+  const next =
+    history.at(-1) === command ? history : [...history, command];
+  const trimmed = next.slice(-HISTORY_SIZE);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(trimmed));
+  return trimmed;
+}
@@ -0,0 +1,98 @@
+// src/modules/Monitoring/deviceConfig.ts
+import type { CommandChannel } from "./commandChannel";
+
+/**
+ * Parámetros del protocolo que ejecuta el ESP32.
+ *
+ * Escritura: !<id> CFG P=<kPa> H=<ms> R=<ms> C=<ciclos>
+ * Lectura:   !<id> CFG?  → ACK con data = DeviceProtocolConfig
+ */
+export interface DeviceProtocolConfig {
+  targetPressureKpa: number;
+  holdTimeMs: number;
+  releaseTimeMs: number;
+  cycleTarget: number; // 0 = ciclos hasta recibir "S"
+}
+
+export interface ConfigMismatch {
+  field: keyof DeviceProtocolConfig;
+  label: string;
+  expected: number;
+  actual: number | null;
+}
+
+const FIELDS: Array<{
+  field: keyof DeviceProtocolConfig;
+  key: string;
+  label: string;
+  tolerance: number; // el firmware redondea a su propia resolución
+}> = [
+  {
+    field: "targetPressureKpa",
+    key: "P",
+    label: "Presión objetivo (kPa)",
+    tolerance: 0.1,
+  },
+  {
+    field: "holdTimeMs",
+    key: "H",
+    label: "Mantenimiento (ms)",
+    tolerance: 100,
+  },
+  {
+    field: "releaseTimeMs",
+    key: "R",
+    label: "Liberación (ms)",
+    tolerance: 100,
+  },
+  { field: "cycleTarget", key: "C", label: "Ciclos", tolerance: 0 },
+];
+
+/** "P=30 H=10000 R=5000 C=0" */
+export function encodeConfigArgs(config: DeviceProtocolConfig): string {
+  return FIELDS.map(({ field, key }) => `${key}=${config[field]}`).join(" ");
+}
+
+/** Interpreta "P=30 H=10000 ..." sobre una configuración base */
+export function decodeConfigArgs(
+  args: string,
+  base: DeviceProtocolConfig,
+): DeviceProtocolConfig {
+  const next = { ...base };
+  for (const pair of args.trim().split(/\s+/)) {
+    const [key, raw] = pair.split("=");
+    const def = FIELDS.find((f) => f.key === key?.toUpperCase());
+    const value = Number(raw);
+    if (def && Number.isFinite(value)) next[def.field] = value;
+  }
+  return next;
+}
+
+/** Campos que el equipo no reporta o que difieren de lo esperado */
+export function diffConfig(
+  expected: DeviceProtocolConfig,
+  device: Partial<Record<string, unknown>> | null | undefined,
+): ConfigMismatch[] {
+  return FIELDS.flatMap(({ field, label, tolerance }) => {
+    const raw = Number(device?.[field]);
+    const actual = Number.isFinite(raw) ? raw : null;
+    if (actual !== null && Math.abs(actual - expected[field]) <= tolerance) {
+      return [];
+    }
+    return [{ field, label, expected: expected[field], actual }];
+  });
+}
+
+/**
+ * Envía los parámetros y los vuelve a leer para verificar que el
+ * equipo ejecutará exactamente lo registrado en la sesión.
+ * Los errores de comunicación se propagan como CommandError.
+ */
+export async function syncDeviceConfig(
+  channel: CommandChannel,
+  config: DeviceProtocolConfig,
+): Promise<ConfigMismatch[]> {
+  await channel.send("CFG", encodeConfigArgs(config));
+  const readBack = await channel.send("CFG?");
+  return diffConfig(config, readBack.data);
+}
@@ -0,0 +1,224 @@
+// src/modules/Monitoring/deviceIdentity.ts
+import type { SerialPort } from "./serial.interface";
+import type { CommandChannel } from "./commandChannel";
+import { isBlePort } from "./bleTransport";
+import { isVirtualPort } from "./virtualDevice";
+
+/**
+ * Identidad de un equipo, independiente del índice en la lista de puertos:
+ * USB vendor/product id (o id BLE) más el número de serie que informa el
+ * firmware con "ID?". Sirve para reabrir el mismo equipo tras un corte y
+ * para preseleccionarlo en la próxima sesión.
+ *
+ * Respuesta de "ID?" (en `data` del ACK):
+ *   {"serial":"VF-0042","fw":"2.1.0","hw":"B","commands":["I","S",...]}
+ */
+
+export interface DeviceIdentity {
+  transport: "usb" | "ble" | "virtual";
+  usbVendorId?: number;
+  usbProductId?: number;
+  bleId?: string;
+  serialNumber?: string;
+}
+
+export function portIdentity(port: SerialPort): DeviceIdentity {
+  if (isVirtualPort(port)) return { transport: "virtual" };
+  if (isBlePort(port)) return { transport: "ble", bleId: port.device.id };
+  const info = port.getInfo?.() ?? {};
+  return {
+    transport: "usb",
+    usbVendorId: info.usbVendorId,
+    usbProductId: info.usbProductId,
+  };
+}
+
+/** El puerto puede ser ese equipo (el número de serie se confirma al abrir) */
+export function matchesIdentity(
+  port: SerialPort,
+  identity: DeviceIdentity,
+): boolean {
+  const candidate = portIdentity(port);
+  if (candidate.transport !== identity.transport) return false;
+  switch (identity.transport) {
+    case "virtual":
+      return true;
+    case "ble":
+      return candidate.bleId === identity.bleId;
+    case "usb":
+      return (
+        identity.usbVendorId !== undefined &&
+        candidate.usbVendorId === identity.usbVendorId &&
+        candidate.usbProductId === identity.usbProductId
+      );
+  }
+}
+
+export interface DeviceInfo {
+  serialNumber?: string;
+  firmwareVersion?: string;
+  hardwareRevision?: string;
+  commands: string[];
+}
+
+// Firmware mínimo: el que entiende CFG/CFG? e informa su identidad
+export const MIN_FIRMWARE_VERSION = "2.0.0";
+const REQUIRED_COMMANDS = ["I", "S", "CFG", "CFG?"];
+
+function pickText(data: Record<string, unknown>, keys: string[]) {
+  const value = keys.map((k) => data[k]).find((v) => v !== undefined);
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : undefined;
+}
+
+/** Handshake de identificación; null si el firmware no entiende "ID?" */
+export async function queryDeviceInfo(
+  channel: CommandChannel,
+): Promise<DeviceInfo | null> {
+  try {
+    const ack = await channel.send("ID?", "", { retries: 0 });
+    const data = ack.data ?? {};
+    const commands = data.commands ?? data.cmds;
+    return {
+      serialNumber: pickText(data, ["serial", "sn"]),
+      firmwareVersion: pickText(data, ["fw", "firmware"]),
+      hardwareRevision: pickText(data, ["hw", "hardware"]),
+      commands: Array.isArray(commands)
+        ? commands.map((c) => String(c).toUpperCase())
+        : [],
+    };
+  } catch {
+    // firmware anterior sin "ID?"
+    return null;
+  }
+}
+
+/** Compara versiones "x.y.z" numéricamente (negativo si a < b) */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.replace(/^v/i, "").split(".").map((n) => parseInt(n, 10) || 0);
+  const pb = b.replace(/^v/i, "").split(".").map((n) => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Motivo por el que no se puede usar un equipo identificado, o null si es
+ * compatible. El que no responde a "ID?" (firmware anterior) se trata
+ * aparte como equipo sin identificar.
+ */
+export function checkFirmwareCompatibility(info: DeviceInfo): string | null {
+  if (
+    !info.firmwareVersion ||
+    compareVersions(info.firmwareVersion, MIN_FIRMWARE_VERSION) < 0
+  ) {
+    return `Firmware ${info.firmwareVersion ?? "desconocido"} no compatible: se requiere ${MIN_FIRMWARE_VERSION} o superior.`;
+  }
+  // Si el firmware publica su lista de comandos, debe incluir los del protocolo
+  const missing = info.commands.length
+    ? REQUIRED_COMMANDS.filter((c) => !info.commands.includes(c))
+    : [];
+  if (missing.length) {
+    return `El firmware ${info.firmwareVersion} no soporta: ${missing.join(", ")}.`;
+  }
+  return null;
+}
+
+/** "SN VF-0042 · fw 2.1.0" */
+export function describeDevice(info: DeviceInfo): string {
+  return [
+    info.serialNumber ? `SN ${info.serialNumber}` : null,
+    info.firmwareVersion ? `fw ${info.firmwareVersion}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// Lo que informó cada equipo la última vez, para etiquetar la lista
+const KNOWN_DEVICES_KEY = "monitoring_known_devices";
+
+export function loadKnownDevices(): Record<string, DeviceInfo> {
+  try {
+    return JSON.parse(localStorage.getItem(KNOWN_DEVICES_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function saveKnownDevice(
+  deviceKey: string,
+  info: DeviceInfo,
+): Record<string, DeviceInfo> {
+  const known = { ...loadKnownDevices(), [deviceKey]: info };
+  localStorage.setItem(KNOWN_DEVICES_KEY, JSON.stringify(known));
+  return known;
+}
+
+// Último equipo usado, para preseleccionarlo en la siguiente sesión
+const LAST_DEVICE_KEY = "monitoring_last_device";
+
+export function saveLastDevice(identity: DeviceIdentity) {
+  localStorage.setItem(LAST_DEVICE_KEY, JSON.stringify(identity));
+}
+
+export function loadLastDevice(): DeviceIdentity | null {
+  try {
+    const raw = localStorage.getItem(LAST_DEVICE_KEY);
+    return raw ? (JSON.parse(raw) as DeviceIdentity) : null;
+  } catch {
+    return null;
+  }
+}
+
+const WATCH_INTERVAL_MS = 2000;
+
+/**
+ * Espera a que el equipo vuelva a estar disponible: reintenta al recibir
+ * "connect" de Web Serial y, como respaldo, cada pocos segundos (BLE no
+ * avisa). `tryOpen` abre y verifica el candidato; devuelve true si lo
+ * adoptó. Devuelve una función para dejar de esperar.
+ */
+export function watchForDevice(
+  identity: DeviceIdentity,
+  candidates: () => Promise<SerialPort[]>,
+  tryOpen: (port: SerialPort) => Promise<boolean>,
+): () => void {
+  let stopped = false;
+  let busy = false;
+
+  const attempt = async () => {
+    if (stopped || busy) return;
+    busy = true;
+    try {
+      for (const port of await candidates()) {
+        if (stopped) return;
+        if (!matchesIdentity(port, identity)) continue;
+        if (await tryOpen(port)) {
+          stop();
+          return;
+        }
+      }
+    } catch {
+      // se reintenta en la próxima vuelta
+    } finally {
+      busy = false;
+    }
+  };
+
+  const onConnect = () => void attempt();
+  const serial = "serial" in navigator ? navigator.serial : null;
+  serial?.addEventListener("connect", onConnect);
+  const timer = setInterval(() => void attempt(), WATCH_INTERVAL_MS);
+
+  const stop = () => {
+    stopped = true;
+    clearInterval(timer);
+    serial?.removeEventListener("connect", onConnect);
+  };
+
+  void attempt();
+  return stop;
+}
@@ -0,0 +1,344 @@
+// src/modules/Monitoring/deviceSession.ts
+import { sessionOutboxStore } from "@/modules/Session/data/session.outbox";
+import { sessionService } from "@/modules/Session/data/session.service";
+import type { Session } from "@/modules/Session/session.interface";
+import { logSystemEvent } from "@/lib/systemLog";
+import type { SerialPort } from "./serial.interface";
+import { openPort, type FrameStats, type SerialIO } from "./serialAdapter";
+import { createCommandChannel, type CommandChannel } from "./commandChannel";
+import { syncDeviceConfig, type DeviceProtocolConfig } from "./deviceConfig";
+import {
+  checkFirmwareCompatibility,
+  portIdentity,
+  queryDeviceInfo,
+  type DeviceInfo,
+} from "./deviceIdentity";
+import {
+  createTelemetryDecoder,
+  type RealtimeRow,
+} from "./telemetryParsers";
+import {
+  createSafetyWatchdog,
+  formatSafetyAlarm,
+  sessionSafetyLimits,
+  type SafetyAlarm,
+} from "./safetyWatchdog";
+
+/**
+ * Un equipo del tablero multi-equipo: su propia conexión, sesión, bucle
+ * de lectura, vigilancia de seguridad y cola de subida. La UI solo lee
+ * instantáneas y llama a las acciones.
+ */
+
+export type DeviceSessionStatus =
+  | "connecting"
+  | "ready" // conectado y con parámetros verificados
+  | "running"
+  | "alarm"
+  | "stopUnconfirmed" // alarma reconocida sin ACK de la parada
+  | "error"
+  | "closed";
+
+export interface DeviceSessionSnapshot {
+  id: string;
+  label: string;
+  patientName: string;
+  session: Session;
+  status: DeviceSessionStatus;
+  pendingCommand: string | null;
+  info: DeviceInfo | null;
+  last: RealtimeRow | null;
+  history: RealtimeRow[]; // últimas lecturas para la mini gráfica
+  alarm: SafetyAlarm | null;
+  error: string | null;
+  stats: FrameStats | null;
+}
+
+export interface DeviceSession {
+  readonly id: string;
+  readonly port: SerialPort;
+  snapshot: () => DeviceSessionSnapshot;
+  /** Abre el puerto, identifica el equipo y le envía los parámetros */
+  connect: () => Promise<void>;
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+  acknowledgeAlarm: () => void;
+  close: () => Promise<void>;
+}
+
+export interface DeviceSessionOptions {
+  id: string;
+  port: SerialPort;
+  label: string;
+  patientName: string;
+  session: Session;
+  config: DeviceProtocolConfig;
+}
+
+const HISTORY_SIZE = 60;
+const UPLOAD_EVERY_MS = 1000;
+const NOTIFY_EVERY_MS = 250; // las lecturas llegan a 10 Hz por equipo
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+export function createDeviceSession(
+  options: DeviceSessionOptions,
+  onChange: (snapshot: DeviceSessionSnapshot) => void,
+): DeviceSession {
+  const { id, port, session, config } = options;
+  const watchdog = createSafetyWatchdog(
+    sessionSafetyLimits(config.targetPressureKpa),
+  );
+  const decoder = createTelemetryDecoder();
+
+  let io: SerialIO | null = null;
+  let channel: CommandChannel | null = null;
+  let closing = false;
+  let stopConfirmed = true; // el último "S" tras una alarma tuvo ACK
+  let lastSent = 0;
+  let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  let state: DeviceSessionSnapshot = {
+    id,
+    label: options.label,
+    patientName: options.patientName,
+    session,
+    status: "connecting",
+    pendingCommand: null,
+    info: null,
+    last: null,
+    history: [],
+    alarm: null,
+    error: null,
+    stats: null,
+  };
+
+  const emit = () => {
+    if (notifyTimer) clearTimeout(notifyTimer);
+    notifyTimer = null;
+    onChange({ ...state, stats: io?.getStats() ?? null });
+  };
+
+  /** Cambios de estado al momento; lecturas agrupadas */
+  const update = (patch: Partial<DeviceSessionSnapshot>, immediate = true) => {
+    state = { ...state, ...patch };
+    if (immediate) emit();
+    else notifyTimer ??= setTimeout(emit, NOTIFY_EVERY_MS);
+  };
+
+  const fail = (e: unknown, fallback: string) =>
+    update({
+      status: "error",
+      error: e instanceof Error ? e.message : fallback,
+    });
+
+  const isActive = () =>
+    state.status === "running" ||
+    state.status === "alarm" ||
+    state.status === "stopUnconfirmed";
+
+  const teardown = async () => {
+    closing = true;
+    channel?.dispose();
+    channel = null;
+    try {
+      await io?.close();
+    } catch {
+      // silencioso
+    }
+    io = null;
+  };
+
+  const command = async (cmd: string): Promise<boolean> => {
+    if (!channel) return false;
+    update({ pendingCommand: cmd, error: null });
+    try {
+      await channel.send(cmd);
+      return true;
+    } catch (e: unknown) {
+      update({
+        error: e instanceof Error ? e.message : `No se pudo enviar ${cmd}.`,
+      });
+      return false;
+    } finally {
+      update({ pendingCommand: null });
+    }
+  };
+
+  /** Deja la sesión trazable a la unidad exacta que la ejecuta */
+  const attachDevice = async (info: DeviceInfo) => {
+    const device = {
+      transport: portIdentity(port).transport,
+      serialNumber: info.serialNumber,
+      firmwareVersion: info.firmwareVersion,
+      hardwareRevision: info.hardwareRevision,
+      commands: info.commands,
+    };
+    try {
+      await sessionService.attachDevice(session.id, device);
+      update({ session: { ...state.session, device } });
+    } catch (e: unknown) {
+      update({
+        error:
+          e instanceof Error
+            ? e.message
+            : "No se pudo vincular el equipo a la sesión.",
+      });
+    }
+  };
+
+  const trip = async (alarm: SafetyAlarm) => {
+    update({ status: "alarm", alarm });
+    logSystemEvent(
+      "error",
+      "monitoring",
+      `${formatSafetyAlarm(alarm)} en ${state.label} (sesión ${session.id.slice(0, 8)}). Parada automática enviada.`,
+    ).catch(() => undefined);
+    stopConfirmed = await command("S");
+    if (!stopConfirmed) {
+      update({
+        error:
+          "El equipo NO confirmó la parada. Retire la banda o abra la válvula manualmente.",
+      });
+    }
+  };
+
+  const readLoop = async (connected: SerialIO) => {
+    while (!closing) {
+      try {
+        const { value, done } = await connected.reader.read();
+        if (done) break;
+        if (!value || channel?.handleLine(value)) continue;
+
+        const reading = decoder.parse(value);
+        if (!reading) continue;
+
+        // El estado solo cambia con una orden confirmada, no por lecturas
+        const alarm = watchdog.check(reading);
+        if (alarm) void trip(alarm);
+
+        update(
+          {
+            last: reading,
+            history: [...state.history, reading].slice(-HISTORY_SIZE),
+          },
+          false,
+        );
+
+        const now = Date.now();
+        if (now - lastSent >= UPLOAD_EVERY_MS) {
+          lastSent = now;
+          void sessionOutboxStore.getState().enqueue(session.id, {
+            measuredPressure: clamp(reading.measuredPressure, 0, 200),
+            temperature: clamp(reading.temperature, 0, 80),
+            cycleIndex: reading.cycleIndex,
+            recordedAt: reading.timestamp,
+          });
+        }
+      } catch (e: unknown) {
+        if (closing) break;
+        // Se pide la parada aunque el puerto probablemente ya no responda
+        if (isActive() && !(await command("S"))) {
+          logSystemEvent(
+            "error",
+            "monitoring",
+            `${state.label} perdió la conexión en marcha sin confirmar la parada (sesión ${session.id.slice(0, 8)}).`,
+          ).catch(() => undefined);
+        }
+        await teardown();
+        fail(e, "Error leyendo datos del dispositivo.");
+        break;
+      }
+    }
+  };
+
+  return {
+    id,
+    port,
+    snapshot: () => state,
+
+    async connect() {
+      update({ status: "connecting", error: null });
+      closing = false;
+      try {
+        io = await openPort(port, 115200);
+        channel = createCommandChannel(io, { S: { retries: 4 } });
+        void readLoop(io);
+
+        const info = await queryDeviceInfo(channel);
+        // El tablero necesita CFG con ACK: sin identificación no hay protocolo
+        if (!info) {
+          throw new Error(
+            "El equipo no respondió a la identificación (firmware anterior). Úselo desde el monitor individual.",
+          );
+        }
+        const bound = state.session.device?.serialNumber;
+        const problem =
+          checkFirmwareCompatibility(info) ??
+          (bound && bound !== info.serialNumber
+            ? `La sesión se vinculó al equipo ${bound}; conecte esa misma unidad.`
+            : null);
+        if (problem) throw new Error(problem);
+        update({ info });
+
+        const mismatches = await syncDeviceConfig(channel, config);
+        if (mismatches.length) {
+          throw new Error(
+            `El equipo no aplicó: ${mismatches.map((m) => m.label).join(", ")}.`,
+          );
+        }
+        update({ status: "ready" });
+        await attachDevice(info);
+      } catch (e: unknown) {
+        await teardown();
+        fail(e, "No se pudo abrir el puerto serial.");
+      }
+    },
+
+    async start() {
+      if (state.status !== "ready") return;
+      if (await command("I")) update({ status: "running" });
+    },
+
+    async stop() {
+      if (!isActive()) return;
+      if (!(await command("S"))) return;
+      stopConfirmed = true;
+      if (state.status !== "alarm") update({ status: "ready" });
+    },
+
+    acknowledgeAlarm() {
+      if (!state.alarm) return;
+      logSystemEvent(
+        "info",
+        "monitoring",
+        `Alarma reconocida en ${state.label} (${formatSafetyAlarm(state.alarm)}).`,
+      ).catch(() => undefined);
+      watchdog.acknowledge();
+      // Sin ACK de la parada el equipo puede seguir inflando
+      update({
+        status: !channel
+          ? "closed"
+          : stopConfirmed
+            ? "ready"
+            : "stopUnconfirmed",
+        alarm: null,
+      });
+    },
+
+    async close() {
+      // No se suelta un equipo en marcha sin pedirle que pare
+      if (channel && isActive() && !(await command("S"))) {
+        logSystemEvent(
+          "error",
+          "monitoring",
+          `${state.label} se desconectó sin confirmar la parada (sesión ${session.id.slice(0, 8)}).`,
+        ).catch(() => undefined);
+      }
+      await teardown();
+      update({ status: "closed" });
+    },
+  };
+}
@@ -0,0 +1,403 @@
+// src/modules/Monitoring/espFlasher.ts
+import { md5Hex } from "@/lib/md5";
+import type { SerialPort } from "./serial.interface";
+
+/**
+ * Grabación de firmware con el bootloader ROM del ESP32 (protocolo de
+ * esptool) sobre un SerialPort de Web Serial.
+ *
+ * Paquetes SLIP (0xC0 ... 0xC0). Petición:
+ *   [0x00][op][tamaño u16][checksum u32][datos]
+ * Respuesta:
+ *   [0x01][op][tamaño u16][valor u32][datos + estado (4 bytes)]
+ *
+ * Secuencia: reset por DTR/RTS → SYNC → SPI_ATTACH → FLASH_BEGIN (borra)
+ * → FLASH_DATA por bloques → SPI_FLASH_MD5 (verifica) → FLASH_END → reset.
+ */
+
+const ROM_BAUD = 115200;
+const FLASH_BLOCK_SIZE = 0x400; // bloque que acepta la ROM
+const CHECKSUM_SEED = 0xef;
+const COMMAND_TIMEOUT_MS = 3000;
+const SYNC_ATTEMPTS = 7;
+const ERASE_MS_PER_MB = 30_000;
+const MD5_MS_PER_MB = 8_000;
+
+const OP = {
+  FLASH_BEGIN: 0x02,
+  FLASH_DATA: 0x03,
+  FLASH_END: 0x04,
+  SYNC: 0x08,
+  SPI_ATTACH: 0x0d,
+  SPI_FLASH_MD5: 0x13,
+} as const;
+
+const SLIP_END = 0xc0;
+const SLIP_ESC = 0xdb;
+const SLIP_ESC_END = 0xdc;
+const SLIP_ESC_ESC = 0xdd;
+
+export const DEFAULT_APP_OFFSET = 0x10000;
+export const FLASH_SECTOR_SIZE = 0x1000; // FLASH_BEGIN borra por sectores
+export const FLASH_SIZE = 0x400000; // 4 MB del módulo de la banda
+const IMAGE_MAGIC = 0xe9; // primer byte de una imagen de aplicación ESP32
+
+export type FlashStage = "reset" | "sync" | "erase" | "write" | "verify";
+
+export interface FlashProgress {
+  stage: FlashStage;
+  written: number; // bytes escritos
+  total: number;
+}
+
+export interface FlashOptions {
+  offset?: number;
+  onProgress?: (progress: FlashProgress) => void;
+}
+
+export interface FlashResult {
+  md5: string;
+  size: number;
+  offset: number;
+}
+
+export class FlashError extends Error {
+  readonly stage: FlashStage;
+
+  constructor(stage: FlashStage, message: string) {
+    super(message);
+    this.name = "FlashError";
+    this.stage = stage;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+function words(...values: number[]): Uint8Array {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => view.setUint32(i * 4, v >>> 0, true));
+  return out;
+}
+
+function checksum(data: Uint8Array): number {
+  let sum = CHECKSUM_SEED;
+  for (const byte of data) sum ^= byte;
+  return sum;
+}
+
+function slipEncode(packet: Uint8Array): Uint8Array {
+  const out: number[] = [SLIP_END];
+  for (const byte of packet) {
+    if (byte === SLIP_END) out.push(SLIP_ESC, SLIP_ESC_END);
+    else if (byte === SLIP_ESC) out.push(SLIP_ESC, SLIP_ESC_ESC);
+    else out.push(byte);
+  }
+  out.push(SLIP_END);
+  return Uint8Array.from(out);
+}
+
+/** Comprueba que el archivo sea una imagen de aplicación ESP32 */
+export function validateFirmwareImage(image: Uint8Array): string | null {
+  if (image.length === 0) return "El archivo está vacío.";
+  if (image[0] !== IMAGE_MAGIC) {
+    return "El archivo no es una imagen de firmware ESP32 (falta la cabecera 0xE9).";
+  }
+  return null;
+}
+
+/** Comprueba que la dirección sea de sector y que la imagen quepa en la flash */
+export function validateFlashOffset(
+  offset: number,
+  imageSize = 0,
+): string | null {
+  if (!Number.isInteger(offset) || offset < 0 || offset >= FLASH_SIZE) {
+    return `La dirección debe estar entre 0x0 y 0x${(FLASH_SIZE - 1).toString(16)}.`;
+  }
+  if (offset % FLASH_SECTOR_SIZE !== 0) {
+    return `La dirección debe ser múltiplo de 0x${FLASH_SECTOR_SIZE.toString(16)} (sector de 4 KB).`;
+  }
+  if (offset + imageSize > FLASH_SIZE) {
+    return `La imagen no cabe en la flash de ${FLASH_SIZE / (1024 * 1024)} MB a partir de 0x${offset.toString(16)}.`;
+  }
+  return null;
+}
+
+/** Lado de lectura: decodifica SLIP y entrega paquetes completos */
+class SlipReader {
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  private readonly packets: Uint8Array[] = [];
+  private current: number[] | null = null;
+  private escaped = false;
+  private waiter: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(reader: ReadableStreamDefaultReader<Uint8Array>) {
+    this.reader = reader;
+    void this.pump();
+  }
+
+  private async pump() {
+    try {
+      for (;;) {
+        const { value, done } = await this.reader.read();
+        if (done) break;
+        if (value) this.decode(value);
+      }
+    } catch (e: unknown) {
+      this.failure =
+        e instanceof Error ? e : new Error("Se perdió el puerto serie.");
+    }
+    this.failure ??= new Error("Se cerró el puerto serie.");
+    this.waiter?.();
+  }
+
+  private decode(chunk: Uint8Array) {
+    for (const byte of chunk) {
+      if (byte === SLIP_END) {
+        // Fin (o inicio) de paquete; lo que no esté entre 0xC0 es ruido del arranque
+        if (this.current?.length) {
+          this.packets.push(Uint8Array.from(this.current));
+          this.waiter?.();
+        }
+        this.current = [];
+        this.escaped = false;
+      } else if (this.current) {
+        if (this.escaped) {
+          this.current.push(
+            byte === SLIP_ESC_END
+              ? SLIP_END
+              : byte === SLIP_ESC_ESC
+                ? SLIP_ESC
+                : byte,
+          );
+          this.escaped = false;
+        } else if (byte === SLIP_ESC) {
+          this.escaped = true;
+        } else {
+          this.current.push(byte);
+        }
+      }
+    }
+  }
+
+  /** Descarta lo recibido (respuestas repetidas de SYNC, etc.) */
+  drain() {
+    this.packets.length = 0;
+  }
+
+  async next(timeoutMs: number): Promise<Uint8Array | null> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.packets.length === 0) {
+      if (this.failure) throw this.failure;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return null;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiter = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.waiter = null;
+    }
+    return this.packets.shift() ?? null;
+  }
+}
+
+type Loader = {
+  command: (
+    stage: FlashStage,
+    op: number,
+    data: Uint8Array,
+    options?: { check?: number; timeoutMs?: number },
+  ) => Promise<Uint8Array>;
+  slip: SlipReader;
+};
+
+function createLoader(
+  slip: SlipReader,
+  writer: WritableStreamDefaultWriter<Uint8Array>,
+): Loader {
+  const command: Loader["command"] = async (stage, op, data, options = {}) => {
+    const header = new Uint8Array(8);
+    const view = new DataView(header.buffer);
+    view.setUint8(0, 0x00);
+    view.setUint8(1, op);
+    view.setUint16(2, data.length, true);
+    view.setUint32(4, options.check ?? 0, true);
+    const packet = new Uint8Array(8 + data.length);
+    packet.set(header);
+    packet.set(data, 8);
+    await writer.write(slipEncode(packet));
+
+    const deadline = Date.now() + (options.timeoutMs ?? COMMAND_TIMEOUT_MS);
+    for (;;) {
+      const response = await slip.next(Math.max(0, deadline - Date.now()));
+      if (!response) {
+        throw new FlashError(
+          stage,
+          `El bootloader no respondió (op 0x${op.toString(16)}).`,
+        );
+      }
+      // Respuestas viejas de otro comando (p. ej. SYNC repetidos): se ignoran
+      if (response.length < 8 || response[0] !== 0x01 || response[1] !== op) {
+        continue;
+      }
+      const size = new DataView(response.buffer).getUint16(2, true);
+      const body = response.slice(8, 8 + size);
+      const status = body[body.length - 4];
+      if (body.length < 4 || status !== 0) {
+        const code = body[body.length - 3] ?? 0;
+        throw new FlashError(
+          stage,
+          `El bootloader rechazó la operación 0x${op.toString(16)} (error 0x${code.toString(16)}).`,
+        );
+      }
+      return body.slice(0, body.length - 4);
+    }
+  };
+  return { command, slip };
+}
+
+/** Reinicio clásico de las placas ESP32: EN por RTS, IO0 por DTR */
+async function resetIntoBootloader(port: SerialPort) {
+  if (!port.setSignals) {
+    throw new FlashError(
+      "reset",
+      "El navegador no permite controlar DTR/RTS; ponga el equipo en modo bootloader manualmente (BOOT + EN).",
+    );
+  }
+  await port.setSignals({ dataTerminalReady: false, requestToSend: true });
+  await sleep(100);
+  await port.setSignals({ dataTerminalReady: true, requestToSend: false });
+  await sleep(50);
+  await port.setSignals({ dataTerminalReady: false });
+}
+
+async function hardReset(port: SerialPort) {
+  if (!port.setSignals) return;
+  await port.setSignals({ requestToSend: true });
+  await sleep(100);
+  await port.setSignals({ requestToSend: false });
+}
+
+async function sync(loader: Loader) {
+  const payload = new Uint8Array(36);
+  payload.set([0x07, 0x07, 0x12, 0x20]);
+  payload.fill(0x55, 4);
+  for (let attempt = 0; attempt < SYNC_ATTEMPTS; attempt++) {
+    try {
+      await loader.command("sync", OP.SYNC, payload, { timeoutMs: 500 });
+      await sleep(50);
+      loader.slip.drain();
+      return;
+    } catch (e: unknown) {
+      if (!(e instanceof FlashError)) throw e;
+    }
+  }
+  throw new FlashError(
+    "sync",
+    "No se pudo sincronizar con el bootloader. Verifique el cable o entre en modo bootloader manualmente.",
+  );
+}
+
+/**
+ * Graba `image` en la flash del equipo y la verifica por MD5.
+ * El puerto debe estar cerrado: se abre a la velocidad de la ROM y se
+ * cierra al terminar, con el equipo reiniciado en el firmware nuevo.
+ */
+export async function flashFirmware(
+  port: SerialPort,
+  image: Uint8Array,
+  { offset = DEFAULT_APP_OFFSET, onProgress }: FlashOptions = {},
+): Promise<FlashResult> {
+  // La ROM escribe palabras de 4 bytes: se rellena como hace esptool
+  const padded = new Uint8Array(Math.ceil(image.length / 4) * 4).fill(0xff);
+  padded.set(image);
+  const total = padded.length;
+  const blocks = Math.ceil(total / FLASH_BLOCK_SIZE);
+  const megabytes = Math.max(1, total / (1024 * 1024));
+  const report = (stage: FlashStage, written = 0) =>
+    onProgress?.({ stage, written, total });
+
+  await port.open({ baudRate: ROM_BAUD });
+  if (!port.readable || !port.writable) {
+    await port.close();
+    throw new FlashError("reset", "El puerto no expone lectura/escritura.");
+  }
+  const reader = port.readable.getReader();
+  const writer = port.writable.getWriter();
+  const loader = createLoader(new SlipReader(reader), writer);
+
+  try {
+    report("reset");
+    await resetIntoBootloader(port);
+
+    report("sync");
+    await sync(loader);
+    await loader.command("sync", OP.SPI_ATTACH, new Uint8Array(8));
+
+    report("erase");
+    await loader.command(
+      "erase",
+      OP.FLASH_BEGIN,
+      words(total, blocks, FLASH_BLOCK_SIZE, offset),
+      { timeoutMs: ERASE_MS_PER_MB * megabytes },
+    );
+
+    for (let seq = 0; seq < blocks; seq++) {
+      const block = new Uint8Array(FLASH_BLOCK_SIZE).fill(0xff);
+      block.set(
+        padded.subarray(seq * FLASH_BLOCK_SIZE, (seq + 1) * FLASH_BLOCK_SIZE),
+      );
+      const data = new Uint8Array(16 + FLASH_BLOCK_SIZE);
+      data.set(words(FLASH_BLOCK_SIZE, seq, 0, 0));
+      data.set(block, 16);
+      await loader.command("write", OP.FLASH_DATA, data, {
+        check: checksum(block),
+      });
+      report("write", Math.min(total, (seq + 1) * FLASH_BLOCK_SIZE));
+    }
+
+    report("verify", total);
+    const expected = md5Hex(padded);
+    const reply = await loader.command(
+      "verify",
+      OP.SPI_FLASH_MD5,
+      words(offset, total, 0, 0),
+      { timeoutMs: MD5_MS_PER_MB * megabytes },
+    );
+    // La ROM responde el MD5 en hex ASCII (32 bytes); el stub, en binario
+    const actual =
+      reply.length >= 32
+        ? new TextDecoder().decode(reply.subarray(0, 32))
+        : Array.from(reply, (b) => b.toString(16).padStart(2, "0")).join("");
+    if (actual.toLowerCase() !== expected) {
+      throw new FlashError(
+        "verify",
+        `La verificación falló: MD5 en flash ${actual}, esperado ${expected}.`,
+      );
+    }
+
+    // 1 = seguir en el bootloader; reiniciamos nosotros por RTS
+    await loader.command("verify", OP.FLASH_END, words(1));
+    await hardReset(port);
+    return { md5: expected, size: image.length, offset };
+  } finally {
+    try {
+      await reader.cancel();
+    } catch {
+      // ya cerrado
+    }
+    reader.releaseLock();
+    writer.releaseLock();
+    try {
+      await port.close();
+    } catch {
+      // el equipo ya se reinició
+    }
+  }
+}
@@ -1,5 +1,15 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { sessionService } from "@/modules/Session/data/session.service";
+import { sessionOutboxStore } from "@/modules/Session/data/session.outbox";
+import {
+  createCaptureRecorder,
+  isCaptureSupported,
+  resumeCaptureUploads,
+  type CaptureRecorder,
+  type CaptureStats,
+} from "@/modules/Session/data/session.capture";
+import { logSystemEvent } from "@/lib/systemLog";
+import { raiseSystemAlert } from "@/lib/systemAlert";
 import { patientService } from "@/modules/Patient/data/patient.service";
 import type { Session } from "@/modules/Session/session.interface";
 import type { Patient } from "@/modules/Patient/patient.interface";
@@ -10,10 +20,77 @@ import {
   requestPort,
   openPort,
   writeLine,
+  type FrameStats,
+  type RawLineListener,
   type SerialIO,
 } from "./serialAdapter";
+import {
+  createCommandChannel,
+  type CommandAck,
+  type CommandChannel,
+} from "./commandChannel";
+import {
+  syncDeviceConfig,
+  type ConfigMismatch,
+  type DeviceProtocolConfig,
+} from "./deviceConfig";
 
+import {
+  createSerialRecorder,
+  openReplay,
+  parseRecording,
+  recordingFileName,
+  type RecordedLine,
+  type SerialRecorder,
+} from "./serialRecording";
+import {
+  createTelemetryDecoder,
+  getTelemetryParsers,
+  loadParserPreference,
+  saveParserPreference,
+  type RealtimeRow,
+  type TelemetryDecoder,
+} from "./telemetryParsers";
 import type { SerialPort } from "./serial.interface";
+import { MonitoringBoard } from "./monitoringBoard";
+import { SerialConsole } from "./serialConsole";
+import { createConsoleFeed } from "./consoleFeed";
+import { VirtualSerialPort, isVirtualPort } from "./virtualDevice";
+import {
+  BleSerialPort,
+  getAuthorizedBleDevices,
+  isBlePort,
+  isWebBluetoothSupported,
+  requestBlePort,
+} from "./bleTransport";
+import {
+  checkFirmwareCompatibility,
+  describeDevice,
+  loadKnownDevices,
+  loadLastDevice,
+  matchesIdentity,
+  portIdentity,
+  queryDeviceInfo,
+  saveKnownDevice,
+  saveLastDevice,
+  watchForDevice,
+  type DeviceIdentity,
+  type DeviceInfo,
+} from "./deviceIdentity";
+import {
+  createSafetyWatchdog,
+  formatSafetyAlarm,
+  sessionSafetyLimits,
+  type SafetyAlarm,
+  type SafetyWatchdog,
+} from "./safetyWatchdog";
+import {
+  createBandFitDetector,
+  formatBandFitWarning,
+  sessionBandFitLimits,
+  type BandFitDetector,
+  type BandFitWarning,
+} from "./bandFitDetector";
 
 import {
   Card,
@@ -27,6 +104,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Play,
   Square,
@@ -40,14 +118,18 @@ import {
   Check,
   AlertTriangle,
   Settings2,
+  Bluetooth,
+  Unplug,
+  ShieldAlert,
 } from "lucide-react";
 
-type RealtimeRow = {
-  timestamp: string;
-  measuredPressure: number; // kPa o la unidad que uses
-  temperature: number; // °C
-  cycleIndex?: number;
-};
+type ConfigStatus =
+  | "idle"
+  | "pending"
+  | "verified"
+  | "mismatch"
+  | "legacy"; // equipo sin identificar: los parámetros se fijan en el propio equipo
+type EmergencyStopStatus = "pending" | "confirmed" | "failed";
 
 function fmtTime(iso?: string) {
   return iso
@@ -59,48 +141,76 @@ function fmtTime(iso?: string) {
     : "—";
 }
 
+function fmtDuration(ms: number) {
+  const total = Math.round(ms / 1000);
+  return total < 60
+    ? `${total} s`
+    : `${Math.floor(total / 60)} min ${total % 60} s`;
+}
+
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
-/**
- * Esperamos líneas en JSON, por ejemplo:
- * {"pressure": 23.4, "temperature": 32.1, "cycle": 1}
- */
-function parseLine(line: string): RealtimeRow | null {
-  const ts = new Date().toISOString();
-  const s = line.trim();
-  if (!s || !s.startsWith("{") || !s.endsWith("}")) return null;
-
-  try {
-    const obj = JSON.parse(s) as Partial<Record<string, unknown>>;
+/** Clave estable del dispositivo para recordar preferencias */
+function deviceKey(port: SerialPort, idx: number): string {
+  if (isVirtualPort(port)) return "virtual";
+  if (isBlePort(port)) return `ble-${port.device.id}`;
+  const info = port.getInfo?.();
+  if (info?.usbVendorId !== undefined) {
+    return `usb-${info.usbVendorId}-${info.usbProductId ?? 0}`;
+  }
+  return `port-${idx}`;
+}
 
-    const pressure = Number(
-      obj.pressure ?? obj.measuredPressure ?? obj.p ?? obj.pr,
-    );
-    const temp = Number(obj.temperature ?? obj.temp ?? obj.t);
-    const cycle = obj.cycle ?? obj.cycleIndex;
-
-    if (Number.isFinite(pressure) && Number.isFinite(temp)) {
-      return {
-        timestamp: ts,
-        measuredPressure: pressure,
-        temperature: temp,
-        cycleIndex:
-          typeof cycle === "number"
-            ? cycle
-            : Number.isFinite(Number(cycle))
-              ? Number(cycle)
-              : undefined,
-      };
-    }
-  } catch {
-    // línea inválida: se descarta
+/** Etiqueta del selector: tipo de enlace + lo que informó el equipo */
+function deviceLabel(port: SerialPort, info?: DeviceInfo): string {
+  let base: string;
+  if (isVirtualPort(port) || isBlePort(port)) {
+    base = port.label;
+  } else {
+    const usb = port.getInfo?.();
+    const hex = (n?: number) => (n ?? 0).toString(16).padStart(4, "0");
+    base =
+      usb?.usbVendorId !== undefined
+        ? `USB ${hex(usb.usbVendorId)}:${hex(usb.usbProductId)}`
+        : "Puerto serie";
   }
-  return null;
+  const detail = info ? describeDevice(info) : "";
+  return detail ? `${base} · ${detail}` : base;
 }
 
+/**
+ * Monitoreo desde el navegador: un equipo con todo el detalle, o el
+ * tablero con varias bandas a la vez. Ambas vistas quedan montadas para
+ * no cortar conexiones al cambiar de pestaña.
+ */
 export default function MonitoringPage() {
+  return (
+    <Tabs defaultValue="single" className="w-full">
+      <TabsList>
+        <TabsTrigger value="single">Un equipo</TabsTrigger>
+        <TabsTrigger value="board">Tablero multi-equipo</TabsTrigger>
+      </TabsList>
+      <TabsContent
+        value="single"
+        forceMount
+        className="mt-4 data-[state=inactive]:hidden"
+      >
+        <SingleDeviceMonitor />
+      </TabsContent>
+      <TabsContent
+        value="board"
+        forceMount
+        className="mt-4 data-[state=inactive]:hidden"
+      >
+        <MonitoringBoard />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function SingleDeviceMonitor() {
   // Dominio
   const [patients, setPatients] = useState<Patient[]>([]);
   const [patientId, setPatientId] = useState<string>("");
@@ -109,11 +219,37 @@ export default function MonitoringPage() {
   // Configuración de sesión (lo que se graba en backend)
   const [targetPressure, setTargetPressure] = useState<number>(30); // kPa
   const [holdTimeSeconds, setHoldTimeSeconds] = useState<number>(10); // seg
+  const [releaseTimeSeconds, setReleaseTimeSeconds] = useState<number>(5); // seg
+  const [cycleTarget, setCycleTarget] = useState<number>(0); // 0 = sin límite
+  const [captureEnabled, setCaptureEnabled] = useState(false);
 
   // Serial
   const [ports, setPorts] = useState<SerialPort[]>([]);
+  const [blePorts, setBlePorts] = useState<BleSerialPort[]>([]);
+  const simulatedPort = useMemo(() => new VirtualSerialPort(), []);
+  // Puertos USB autorizados, luego BLE, y el simulado al final de la lista
+  const devices = useMemo<SerialPort[]>(
+    () => [...ports, ...blePorts, simulatedPort],
+    [ports, blePorts, simulatedPort],
+  );
   const [selectedPortIdx, setSelectedPortIdx] = useState<number>(-1);
   const [io, setIo] = useState<SerialIO | null>(null);
+  const [linkStats, setLinkStats] = useState<FrameStats | null>(null);
+  const channelRef = useRef<CommandChannel | null>(null);
+  // Equipo sin "ID?" (firmware anterior): no confirma comandos ni acepta CFG
+  const legacyIoRef = useRef<SerialIO | null>(null);
+  const [pendingCommand, setPendingCommand] = useState<string | null>(null);
+  const [lastAck, setLastAck] = useState<CommandAck | null>(null);
+  // Identificación del equipo conectado y lo que informaron otros antes
+  const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null);
+  const [knownDevices, setKnownDevices] =
+    useState<Record<string, DeviceInfo>>(loadKnownDevices);
+
+  // Verificación de parámetros en el equipo (requisito para "I")
+  const [configStatus, setConfigStatus] = useState<ConfigStatus>("idle");
+  const [configMismatches, setConfigMismatches] = useState<ConfigMismatch[]>(
+    [],
+  );
 
   // Flags
   const [isMonitoring, setIsMonitoring] = useState(false);
@@ -124,9 +260,76 @@ export default function MonitoringPage() {
   // Datos en tiempo real
   const [realtime, setRealtime] = useState<RealtimeRow[]>([]);
 
-  // Control de envío a backend
+  // Control de envío a backend (vía cola persistente)
   const lastSentRef = useRef<number>(0);
   const closeLoopRef = useRef<boolean>(false);
+  const outbox = sessionOutboxStore((s) =>
+    session ? s.counters[session.id] : undefined,
+  );
+  const outboxRetryAt = sessionOutboxStore((s) => s.retryAt);
+
+  // Captura completa (todas las tramas, en bloques comprimidos)
+  const captureRef = useRef<CaptureRecorder | null>(null);
+  const [captureStats, setCaptureStats] = useState<CaptureStats | null>(null);
+
+  // Grabación del flujo serie y reproducción desde archivo
+  const recorderRef = useRef<SerialRecorder | null>(null);
+  const [recordedCount, setRecordedCount] = useState<number | null>(null);
+  const [replayLines, setReplayLines] = useState<RecordedLine[] | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState<number>(1);
+  const [isReplay, setIsReplay] = useState(false);
+
+  // Formato de telemetría: forzado por dispositivo o detectado al conectar
+  const decoderRef = useRef<TelemetryDecoder | null>(null);
+  const [parserId, setParserId] = useState<string>("auto");
+  const [detectedParser, setDetectedParser] = useState<string | null>(null);
+
+  // Consola serie: todas las líneas crudas, también las descartadas
+  const consoleFeed = useMemo(() => createConsoleFeed(), []);
+  // Tramas entregadas cuya línea cruda espera a que readLoop la clasifique
+  const rawFramesRef = useRef<{ payload: string; raw: string }[]>([]);
+
+  // Reconexión automática con el mismo equipo tras un corte
+  const identityRef = useRef<DeviceIdentity | null>(null);
+  const reconnectRef = useRef<{ since: number; stop: () => void } | null>(
+    null,
+  );
+  const unwatchDisconnectRef = useRef<(() => void) | null>(null);
+  const monitoringRef = useRef(false);
+  const [reconnectingSince, setReconnectingSince] = useState<number | null>(
+    null,
+  );
+  const [lastGapMs, setLastGapMs] = useState<number | null>(null);
+
+  useEffect(() => {
+    monitoringRef.current = isMonitoring;
+  }, [isMonitoring]);
+
+  // Vigilancia de seguridad: la alarma queda enclavada hasta reconocerla
+  const watchdogRef = useRef<SafetyWatchdog | null>(null);
+  const [safetyAlarm, setSafetyAlarm] = useState<SafetyAlarm | null>(null);
+  const [emergencyStop, setEmergencyStop] =
+    useState<EmergencyStopStatus | null>(null);
+
+  // Ajuste de la banda: avisos de fuga o re-inflados (no detienen la sesión)
+  const bandFitRef = useRef<BandFitDetector | null>(null);
+  const bandFitAlertedRef = useRef(new Set<string>());
+  const [bandFitWarnings, setBandFitWarnings] = useState<BandFitWarning[]>([]);
+  const [bandFitSeen, setBandFitSeen] = useState(0); // avisos ya ocultados
+
+  // Retoma la subida de lecturas que quedaron en cola (p. ej. tras recargar)
+  useEffect(() => {
+    void sessionOutboxStore.getState().resume();
+    resumeCaptureUploads().catch((e) => console.error(e));
+  }, []);
+
+  // Al salir se corta la captura: lo pendiente queda en IndexedDB
+  useEffect(
+    () => () => {
+      void captureRef.current?.stop();
+    },
+    [],
+  );
 
   // Cargar pacientes
   useEffect(() => {
@@ -153,15 +356,45 @@ export default function MonitoringPage() {
     })();
   }, []);
 
+  // Equipos BLE ya autorizados (si el navegador permite listarlos)
+  useEffect(() => {
+    (async () => {
+      const list = await getAuthorizedBleDevices();
+      setBlePorts(list.map((device) => new BleSerialPort(device)));
+    })();
+  }, []);
+
+  // Contadores del enlace serie (se refrescan mientras hay conexión)
+  useEffect(() => {
+    if (!io) {
+      setLinkStats(null);
+      return;
+    }
+    setLinkStats(io.getStats());
+    const timer = setInterval(() => setLinkStats(io.getStats()), 1000);
+    return () => clearInterval(timer);
+  }, [io]);
+
   // Derivados UI / reglas
   const canCreateSession =
-    !!patientId && !session && targetPressure > 0 && holdTimeSeconds > 0;
+    !!patientId &&
+    !session &&
+    targetPressure > 0 &&
+    holdTimeSeconds > 0 &&
+    releaseTimeSeconds > 0;
   const canPickDevice = !!session && !isMonitoring;
   const isConnected = io !== null;
   const canConnect = !!session && selectedPortIdx >= 0 && !isConnected;
-  const canStart = !!session && isConnected && !isMonitoring;
-  const canStop = !!session && isMonitoring;
-  const canReset = !isMonitoring && (!!session || !!patientId);
+  const canSyncConfig =
+    !!session && isConnected && !isMonitoring && !pendingCommand;
+  const canStart =
+    canSyncConfig &&
+    (configStatus === "verified" || configStatus === "legacy") &&
+    !safetyAlarm;
+  const canStop = !!session && isMonitoring && !pendingCommand;
+  const canReset =
+    !isMonitoring && !safetyAlarm && (!!session || !!patientId);
+  const safetyLimits = sessionSafetyLimits(targetPressure);
 
   // Acciones
   const handleCreateSession = async (): Promise<void> => {
@@ -173,8 +406,32 @@ export default function MonitoringPage() {
         patientId,
         targetPressure,
         holdTimeSeconds,
+        releaseTimeSeconds,
+        cycleTarget,
       });
       setSession(s);
+      watchdogRef.current = createSafetyWatchdog(
+        sessionSafetyLimits(targetPressure),
+      );
+      bandFitRef.current = createBandFitDetector(
+        sessionBandFitLimits(targetPressure),
+      );
+      bandFitAlertedRef.current = new Set();
+      setBandFitWarnings([]);
+      setBandFitSeen(0);
+      // Preselecciona el último equipo usado si sigue disponible
+      const last = loadLastDevice();
+      if (last && selectedPortIdx < 0) {
+        const idx = devices.findIndex((p) => matchesIdentity(p, last));
+        if (idx >= 0) handleSelectDevice(idx);
+      }
+      if (captureEnabled) {
+        const recorder = createCaptureRecorder(s.id, (stats) => {
+          // Tras "Reiniciar" el grabador sigue subiendo, pero ya no se muestra
+          if (captureRef.current === recorder) setCaptureStats(stats);
+        });
+        captureRef.current = recorder;
+      }
     } catch (e: unknown) {
       const message =
         e instanceof Error ? e.message : "Error creando la sesión.";
@@ -191,20 +448,160 @@ export default function MonitoringPage() {
       const list = await getAuthorizedPorts();
       setPorts(list);
       const idx = list.findIndex((x) => x === p);
-      setSelectedPortIdx(idx >= 0 ? idx : -1);
+      handleSelectDevice(idx >= 0 ? idx : -1, list[idx]);
     } catch {
       // cancelado por el usuario
     }
   };
 
+  const handleRequestBlePort = async (): Promise<void> => {
+    setErr(null);
+    try {
+      const p = await requestBlePort();
+      // Si ya estaba en la lista reutilizamos esa instancia
+      const existing = blePorts.findIndex(
+        (x) => x.device.id === p.device.id,
+      );
+      const list = existing >= 0 ? blePorts : [...blePorts, p];
+      const bleIdx = existing >= 0 ? existing : list.length - 1;
+      setBlePorts(list);
+      handleSelectDevice(ports.length + bleIdx, list[bleIdx]);
+    } catch {
+      // cancelado por el usuario
+    }
+  };
+
+  const handleSelectDevice = (idx: number, port = devices[idx]): void => {
+    setSelectedPortIdx(idx);
+    setParserId(port ? loadParserPreference(deviceKey(port, idx)) : "auto");
+  };
+
+  const resetDecoder = (id = parserId): void => {
+    setDetectedParser(null);
+    decoderRef.current = createTelemetryDecoder(id, (parser) =>
+      setDetectedParser(parser.label),
+    );
+  };
+
+  const handleParserChange = (id: string): void => {
+    setParserId(id);
+    const port = devices[selectedPortIdx];
+    if (port && !isReplay) {
+      saveParserPreference(deviceKey(port, selectedPortIdx), id);
+    }
+    if (io) resetDecoder(id);
+  };
+
+  /** Las tramas malas no llegan al reader: van directo a la consola */
+  const handleRawLine: RawLineListener = (raw, verdict, payload) => {
+    if (verdict === "delivered") {
+      rawFramesRef.current.push({ payload: payload ?? raw, raw });
+    } else {
+      consoleFeed.push(
+        verdict === "corrupted" ? "corrupted" : "discarded",
+        raw,
+      );
+    }
+  };
+
+  /** Línea cruda que corresponde a `value` (la misma si no venía en trama) */
+  const takeRawLine = (value: string): string => {
+    const queue = rawFramesRef.current;
+    // Lo que quedó de una conexión anterior no coincide y se descarta
+    while (queue.length && queue[0].payload !== value) queue.shift();
+    return queue.shift()?.raw ?? value;
+  };
+
+  /** Engancha una conexión abierta: canal de comandos, decodificador y lectura */
+  const attachConnection = (
+    connected: SerialIO,
+    port: SerialPort,
+  ): CommandChannel => {
+    // La parada es la orden crítica: insiste más antes de rendirse
+    const channel = createCommandChannel(
+      connected,
+      { S: { retries: 4 } },
+      (line) => consoleFeed.push("sent", line),
+    );
+    channelRef.current = channel;
+    resetDecoder();
+    setIo(connected);
+    closeLoopRef.current = false;
+    void readLoop(connected);
+
+    // Web Serial avisa al desenchufar: no esperamos a que falle la lectura
+    if (isWebSerialSupported() && !isVirtualPort(port) && !isBlePort(port)) {
+      const onDisconnect = (event: Event) => {
+        const target: unknown = event.target;
+        if (target === port) startReconnect(connected);
+      };
+      navigator.serial.addEventListener("disconnect", onDisconnect);
+      unwatchDisconnectRef.current = () =>
+        navigator.serial.removeEventListener("disconnect", onDisconnect);
+    }
+    return channel;
+  };
+
+  /** Suelta la conexión sin tocar el estado de la sesión */
+  const detachConnection = async (connected: SerialIO): Promise<void> => {
+    closeLoopRef.current = true;
+    unwatchDisconnectRef.current?.();
+    unwatchDisconnectRef.current = null;
+    channelRef.current?.dispose();
+    channelRef.current = null;
+    legacyIoRef.current = null;
+    try {
+      await connected.close();
+    } catch {
+      // silencioso
+    }
+    setIo(null);
+  };
+
   const handleConnect = async (): Promise<void> => {
     if (selectedPortIdx < 0) return;
+    const port = devices[selectedPortIdx];
     setErr(null);
+    setLastGapMs(null);
     try {
-      const connected = await openPort(ports[selectedPortIdx], 115200);
-      setIo(connected);
-      closeLoopRef.current = false;
-      void readLoop(connected);
+      const connected = await openPort(port, 115200, handleRawLine);
+      const channel = attachConnection(connected, port);
+
+      // Handshake: sin firmware compatible no se opera el equipo
+      const info = await queryDeviceInfo(channel);
+      const problem =
+        (info && checkFirmwareCompatibility(info)) ??
+        (session?.device?.serialNumber &&
+        session.device.serialNumber !== info?.serialNumber
+          ? `La sesión se vinculó al equipo ${session.device.serialNumber}; conecte esa misma unidad.`
+          : null);
+      if (problem) {
+        await detachConnection(connected);
+        setErr(problem);
+        return;
+      }
+      setDeviceInfo(info);
+      if (info) {
+        setKnownDevices(
+          saveKnownDevice(deviceKey(port, selectedPortIdx), info),
+        );
+      }
+
+      const identity: DeviceIdentity = {
+        ...portIdentity(port),
+        serialNumber: info?.serialNumber,
+      };
+      saveLastDevice(identity);
+      // El simulado no se desconecta solo: no hay nada que vigilar
+      identityRef.current = isVirtualPort(port) ? null : identity;
+      void handleAttachDevice(identity, info ?? { commands: [] });
+      if (info) {
+        await handleSyncConfig();
+      } else {
+        // Firmware anterior: se opera como antes, sin ACK ni CFG
+        legacyIoRef.current = connected;
+        setConfigStatus("legacy");
+      }
     } catch (e: unknown) {
       const message =
         e instanceof Error ? e.message : "No se pudo abrir el puerto serial.";
@@ -212,86 +609,448 @@ export default function MonitoringPage() {
     }
   };
 
+  /** Deja la sesión trazable a la unidad exacta que la ejecuta */
+  const handleAttachDevice = async (
+    identity: DeviceIdentity,
+    info: DeviceInfo,
+  ): Promise<void> => {
+    if (!session) return;
+    const device = {
+      transport: identity.transport,
+      serialNumber: info.serialNumber,
+      firmwareVersion: info.firmwareVersion,
+      hardwareRevision: info.hardwareRevision,
+      commands: info.commands,
+    };
+    try {
+      await sessionService.attachDevice(session.id, device);
+      setSession((prev) => (prev ? { ...prev, device } : prev));
+    } catch (e: unknown) {
+      const message =
+        e instanceof Error
+          ? e.message
+          : "No se pudo vincular el equipo a la sesión.";
+      setErr(message);
+    }
+  };
+
   const handleDisconnect = async (): Promise<void> => {
+    reconnectRef.current?.stop();
+    reconnectRef.current = null;
+    setReconnectingSince(null);
     if (!io) return;
-    closeLoopRef.current = true;
+    identityRef.current = null;
+    captureRef.current?.flush();
+    setDeviceInfo(null);
+    setLastAck(null);
+    setConfigStatus("idle");
+    setConfigMismatches([]);
+    await detachConnection(io);
+    setIsReplay(false);
+  };
+
+  /** Deja constancia del corte en el registro de la sesión */
+  const recordInterruption = async (
+    since: number,
+    reason: string,
+  ): Promise<void> => {
+    if (!session) return;
+    const endedAt = Date.now();
     try {
-      await io.close();
-    } catch {
-      // silencioso
+      await sessionService.addInterruption(session.id, {
+        startedAt: new Date(since).toISOString(),
+        endedAt: new Date(endedAt).toISOString(),
+        durationMs: endedAt - since,
+        reason,
+      });
+    } catch (e: unknown) {
+      const message =
+        e instanceof Error
+          ? e.message
+          : "No se pudo registrar la interrupción en la sesión.";
+      setErr(message);
+    }
+  };
+
+  /**
+   * Corte inesperado del enlace: espera al mismo equipo (vendor/product id
+   * y número de serie), lo reabre y retoma la sesión. Devuelve false si no
+   * hay equipo que esperar (reproducción, simulado, sin sesión).
+   */
+  const startReconnect = (lost: SerialIO): boolean => {
+    if (reconnectRef.current) return true;
+    const identity = identityRef.current;
+    const port = devices[selectedPortIdx];
+    if (!identity || !session || !port) return false;
+
+    const since = Date.now();
+    const resumeCycles = monitoringRef.current;
+    void detachConnection(lost);
+    setLastAck(null);
+    setConfigStatus("idle");
+    setLastGapMs(null);
+    setReconnectingSince(since);
+
+    const stop = watchForDevice(
+      identity,
+      async () => (isBlePort(port) ? [port] : getAuthorizedPorts()),
+      async (candidate) => {
+        let connected: SerialIO;
+        try {
+          connected = await openPort(candidate, 115200, handleRawLine);
+        } catch {
+          return false; // todavía no está listo
+        }
+        const channel = attachConnection(connected, candidate);
+        const info = await queryDeviceInfo(channel);
+        if (reconnectRef.current?.since !== since) {
+          // Se canceló mientras abríamos
+          await detachConnection(connected);
+          return true;
+        }
+        if (
+          identity.serialNumber &&
+          info?.serialNumber !== identity.serialNumber
+        ) {
+          // Mismo modelo, otro equipo: seguimos esperando
+          await detachConnection(connected);
+          return false;
+        }
+
+        reconnectRef.current = null;
+        setDeviceInfo(info);
+        setReconnectingSince(null);
+        setLastGapMs(Date.now() - since);
+        void recordInterruption(since, "Conexión perdida con el dispositivo");
+        if (!info) {
+          legacyIoRef.current = connected;
+          setConfigStatus("legacy");
+        }
+        // El equipo pudo reiniciarse: reenvía parámetros y retoma los ciclos
+        const synced = info ? await handleSyncConfig() : true;
+        if (synced && resumeCycles && !watchdogRef.current?.latched()) {
+          await sendCommand("I");
+        }
+        return true;
+      },
+    );
+    reconnectRef.current = { since, stop };
+    return true;
+  };
+
+  const handleCancelReconnect = (): void => {
+    const pending = reconnectRef.current;
+    if (!pending) return;
+    pending.stop();
+    reconnectRef.current = null;
+    identityRef.current = null;
+    setReconnectingSince(null);
+    setIsMonitoring(false);
+    setErr("Reconexión cancelada: la sesión quedó interrumpida.");
+    void recordInterruption(
+      pending.since,
+      "Reconexión cancelada por el operador",
+    );
+  };
+
+  /** Envía un comando y espera su ACK; devuelve false si falló */
+  const sendCommand = async (command: string): Promise<boolean> => {
+    const legacyIo = legacyIoRef.current;
+    if (legacyIo) {
+      // Sin ACK posible: se escribe tal cual, como antes del canal de comandos
+      try {
+        await writeLine(legacyIo.writer, command);
+        consoleFeed.push("sent", command);
+        return true;
+      } catch (e: unknown) {
+        setErr(e instanceof Error ? e.message : `No se pudo enviar ${command}.`);
+        return false;
+      }
+    }
+    const channel = channelRef.current;
+    if (!channel) return false;
+    setPendingCommand(command);
+    try {
+      setLastAck(await channel.send(command));
+      return true;
+    } catch (e: unknown) {
+      const message =
+        e instanceof Error ? e.message : `No se pudo enviar ${command}.`;
+      setErr(message);
+      return false;
+    } finally {
+      setPendingCommand(null);
+    }
+  };
+
+  /** Envía los parámetros de la sesión al ESP y los verifica; true si coinciden */
+  const handleSyncConfig = async (): Promise<boolean> => {
+    const channel = channelRef.current;
+    if (!channel) return false;
+    const config: DeviceProtocolConfig = {
+      targetPressureKpa: targetPressure,
+      holdTimeMs: holdTimeSeconds * 1000,
+      releaseTimeMs: releaseTimeSeconds * 1000,
+      cycleTarget,
+    };
+    setErr(null);
+    setConfigStatus("pending");
+    setConfigMismatches([]);
+    setPendingCommand("CFG");
+    try {
+      const mismatches = await syncDeviceConfig(channel, config);
+      setConfigMismatches(mismatches);
+      setConfigStatus(mismatches.length ? "mismatch" : "verified");
+      return mismatches.length === 0;
+    } catch (e: unknown) {
+      const message =
+        e instanceof Error
+          ? e.message
+          : "No se pudieron enviar los parámetros al dispositivo.";
+      setErr(message);
+      setConfigStatus("idle");
+      return false;
+    } finally {
+      setPendingCommand(null);
     }
-    setIo(null);
   };
 
   const handleStart = async (): Promise<void> => {
     if (!io || !session) return;
     setErr(null);
     setStartedFromDevice(false);
-    // Comando para iniciar en el ESP (ajusta si usas otro)
-    await writeLine(io.writer, "I");
-    setIsMonitoring(true);
+    // Comando para iniciar en el ESP; solo marcamos ciclos si lo confirma
+    if (await sendCommand("I")) setIsMonitoring(true);
   };
 
   const handleStop = async (): Promise<void> => {
     if (!io || !session) return;
     setErr(null);
-    // Comando para detener en el ESP
-    await writeLine(io.writer, "S");
-    setIsMonitoring(false);
+    // Comando para detener en el ESP; sin ACK seguimos mostrando ciclos activos
+    if (await sendCommand("S")) {
+      setIsMonitoring(false);
+      captureRef.current?.flush();
+    }
     // NO llamamos a closeSession en backend porque no existe update
   };
 
+  /** Alarma de seguridad: para el equipo sin esperar al operador y lo registra */
+  const handleSafetyTrip = async (alarm: SafetyAlarm): Promise<void> => {
+    setSafetyAlarm(alarm);
+    captureRef.current?.flush();
+    logSystemEvent(
+      "error",
+      "monitoring",
+      `${formatSafetyAlarm(alarm)} en la sesión ${session?.id.slice(0, 8) ?? "—"}. Parada automática enviada.`,
+    ).catch(() => setErr("No se pudo registrar la alarma en los logs."));
+    await handleEmergencyStop();
+  };
+
+  /**
+   * Posible banda mal ajustada: se avisa en pantalla y se deja una alerta
+   * por tipo (y otra si se repite en la sesión) para no inundar el feed
+   */
+  const handleBandFitWarnings = (warnings: BandFitWarning[]): void => {
+    setBandFitWarnings((prev) => [...prev, ...warnings]);
+    const patient = session?.patient
+      ? `${session.patient.firstName} ${session.patient.lastName}`
+      : "—";
+    for (const warning of warnings) {
+      const key = `${warning.kind}-${warning.scope}`;
+      if (bandFitAlertedRef.current.has(key)) continue;
+      bandFitAlertedRef.current.add(key);
+      raiseSystemAlert(
+        "warn",
+        `${formatBandFitWarning(warning)} · paciente ${patient} · sesión ${session?.id.slice(0, 8) ?? "—"}`,
+      ).catch(() => setErr("No se pudo registrar la alerta de ajuste de banda."));
+    }
+  };
+
+  const handleEmergencyStop = async (): Promise<void> => {
+    const channel = channelRef.current;
+    setEmergencyStop("pending");
+    if (legacyIoRef.current) {
+      // Se envía igual, pero el firmware anterior no puede confirmarla
+      await sendCommand("S");
+      setEmergencyStop("failed");
+      return;
+    }
+    if (!channel) {
+      setEmergencyStop("failed");
+      return;
+    }
+    try {
+      // Usa la política de "S" del canal (más reintentos que el resto)
+      setLastAck(await channel.send("S"));
+      setIsMonitoring(false);
+      setEmergencyStop("confirmed");
+    } catch {
+      setEmergencyStop("failed");
+    }
+  };
+
+  const handleAcknowledgeAlarm = (): void => {
+    if (!safetyAlarm) return;
+    watchdogRef.current?.acknowledge();
+    logSystemEvent(
+      "info",
+      "monitoring",
+      `Alarma reconocida por el operador (${formatSafetyAlarm(safetyAlarm)}).`,
+    ).catch(() => setErr("No se pudo registrar el reconocimiento en los logs."));
+    setSafetyAlarm(null);
+    setEmergencyStop(null);
+  };
+
+  /** Comando escrito a mano en la consola (sin id ni espera de ACK) */
+  const handleConsoleSend = async (command: string): Promise<void> => {
+    if (!io) throw new Error("No hay dispositivo conectado.");
+    await writeLine(io.writer, command);
+    consoleFeed.push("sent", command);
+  };
+
+  const handleToggleRecording = (): void => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      recorderRef.current = createSerialRecorder();
+      setRecordedCount(0);
+      return;
+    }
+    // Detener y descargar
+    const url = URL.createObjectURL(recorder.toBlob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = recordingFileName();
+    a.click();
+    URL.revokeObjectURL(url);
+    recorderRef.current = null;
+    setRecordedCount(null);
+  };
+
+  const handlePickReplay = async (file?: File): Promise<void> => {
+    if (!file) return;
+    setErr(null);
+    const lines = parseRecording(await file.text());
+    if (lines.length === 0) {
+      setErr("El archivo no contiene líneas grabadas válidas.");
+      setReplayLines(null);
+      return;
+    }
+    setReplayLines(lines);
+  };
+
+  const handleReplay = (): void => {
+    if (!replayLines || io) return;
+    setErr(null);
+    const replay = openReplay(replayLines, replaySpeed);
+    resetDecoder();
+    setIo(replay);
+    setIsReplay(true);
+    closeLoopRef.current = false;
+    void readLoop(replay, { replay: true });
+  };
+
   const handleReset = async (): Promise<void> => {
     if (isMonitoring) return;
     await handleDisconnect();
+    // Lo que no se subió queda en IndexedDB y se retoma al reabrir el monitor
+    await captureRef.current?.stop();
+    captureRef.current = null;
+    watchdogRef.current = null;
+    bandFitRef.current = null;
+    setBandFitWarnings([]);
+    setBandFitSeen(0);
+    setCaptureStats(null);
+    setCaptureEnabled(false);
+    setLastGapMs(null);
     setRealtime([]);
     setStartedFromDevice(false);
     setSession(null);
     setPatientId("");
     setErr(null);
-    setSelectedPortIdx(-1);
+    handleSelectDevice(-1);
     setTargetPressure(30);
     setHoldTimeSeconds(10);
+    setReleaseTimeSeconds(5);
+    setCycleTarget(0);
   };
 
-  // Bucle de lectura
-  const readLoop = async (connected: SerialIO): Promise<void> => {
+  // Bucle de lectura (`live` = hay equipo real al que ordenar la parada)
+  /**
+   * Lee el puerto y procesa cada línea. Con `replay` (grabación reproducida)
+   * las lecturas solo alimentan la gráfica: no tocan la sesión del paciente,
+   * la captura, la cola de subida ni los detectores de seguridad.
+   */
+  const readLoop = async (
+    connected: SerialIO,
+    { replay = false }: { replay?: boolean } = {},
+  ): Promise<void> => {
     while (!closeLoopRef.current) {
       try {
         const { value, done } = await connected.reader.read();
         if (done) break;
         if (!value) continue;
 
-        const reading = parseLine(value);
+        if (!replay && recorderRef.current) {
+          recorderRef.current.record(value);
+          setRecordedCount(recorderRef.current.count());
+        }
+
+        // Las confirmaciones de comandos no son lecturas
+        const raw = takeRawLine(value);
+        if (channelRef.current?.handleLine(value)) {
+          consoleFeed.push("ack", raw);
+          continue;
+        }
+
+        const reading = decoderRef.current?.parse(value) ?? null;
+        consoleFeed.push(reading ? "reading" : "discarded", raw);
         if (!reading) continue;
 
+        setRealtime((prev) => {
+          const up = [...prev, reading];
+          return up.slice(-200);
+        });
+        if (replay) continue;
+
+        const alarm = watchdogRef.current?.check(reading);
+        if (alarm) void handleSafetyTrip(alarm);
+
+        const fit = bandFitRef.current?.push({
+          at: Date.parse(reading.timestamp),
+          pressure: reading.measuredPressure,
+          state: reading.state,
+          cycleIndex: reading.cycleIndex,
+        });
+        if (fit?.length) handleBandFitWarnings(fit);
+
         // Si el dispositivo empezó solo (ej. botón físico), marcamos monitoring
-        if (session && !isMonitoring) {
+        if (session && !monitoringRef.current) {
           setIsMonitoring(true);
           setStartedFromDevice(true);
         }
 
-        setRealtime((prev) => {
-          const up = [...prev, reading];
-          return up.slice(-200);
+        captureRef.current?.push({
+          t: Date.parse(reading.timestamp),
+          p: reading.measuredPressure,
+          temp: reading.temperature,
+          c: reading.cycleIndex,
         });
 
-        // Envío al backend cada 1s
+        // Muestra cada 1s a la cola; ella sube por lotes y reintenta
         const now = Date.now();
         if (session && now - lastSentRef.current >= 1000) {
           lastSentRef.current = now;
-          try {
-            await sessionService.addData(session.id, {
-              measuredPressure: clamp(reading.measuredPressure, 0, 200),
-              temperature: clamp(reading.temperature, 0, 80),
-              cycleIndex: reading.cycleIndex,
-            });
-          } catch {
-            // toleramos fallos intermitentes
-          }
+          void sessionOutboxStore.getState().enqueue(session.id, {
+            measuredPressure: clamp(reading.measuredPressure, 0, 200),
+            temperature: clamp(reading.temperature, 0, 80),
+            cycleIndex: reading.cycleIndex,
+            recordedAt: reading.timestamp,
+          });
         }
       } catch (e: unknown) {
         if (closeLoopRef.current) break;
+        // Cable suelto o equipo reiniciado: esperamos a que vuelva
+        if (!replay && startReconnect(connected)) break;
         const message =
           e instanceof Error
             ? e.message
@@ -310,20 +1069,27 @@ export default function MonitoringPage() {
       { label: "Paciente", done: !!patientId },
       {
         label: "Protocolo",
-        done: targetPressure > 0 && holdTimeSeconds > 0,
+        done:
+          targetPressure > 0 && holdTimeSeconds > 0 && releaseTimeSeconds > 0,
       },
       { label: "Sesión creada", done: !!session },
       { label: "Dispositivo", done: selectedPortIdx >= 0 },
       { label: "Conexión", done: isConnected },
+      {
+        label: "Parámetros",
+        done: configStatus === "verified" || configStatus === "legacy",
+      },
       { label: "Ciclos activos", done: isMonitoring },
     ],
     [
       patientId,
       targetPressure,
       holdTimeSeconds,
+      releaseTimeSeconds,
       session,
       selectedPortIdx,
       isConnected,
+      configStatus,
       isMonitoring,
     ],
   );
@@ -393,6 +1159,42 @@ export default function MonitoringPage() {
         </Card>
       )}
 
+      {safetyAlarm && (
+        <SafetyAlarmBanner
+          alarm={safetyAlarm}
+          stop={emergencyStop}
+          onRetryStop={handleEmergencyStop}
+          onAcknowledge={handleAcknowledgeAlarm}
+        />
+      )}
+
+      {bandFitWarnings.length > bandFitSeen && (
+        <BandFitBanner
+          warnings={bandFitWarnings}
+          onDismiss={() => setBandFitSeen(bandFitWarnings.length)}
+        />
+      )}
+
+      {reconnectingSince !== null && (
+        <ReconnectBanner
+          since={reconnectingSince}
+          onCancel={handleCancelReconnect}
+        />
+      )}
+
+      {reconnectingSince === null && lastGapMs !== null && (
+        <Card className="border-emerald-500/40 bg-emerald-500/5">
+          <CardHeader className="py-3">
+            <CardTitle className="text-sm">Conexión restablecida</CardTitle>
+            <CardDescription className="text-xs">
+              El enlace con el dispositivo estuvo cortado{" "}
+              {fmtDuration(lastGapMs)}. La interrupción quedó registrada en la
+              sesión.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
       {/* Layout principal dividido */}
       <div className="grid gap-4 xl:grid-cols-[minmax(0,2fr)_minmax(320px,1.1fr)] items-start">
         {/* Columna izquierda: panel en vivo */}
@@ -424,6 +1226,31 @@ export default function MonitoringPage() {
                       Inicio desde dispositivo
                     </Badge>
                   )}
+                  {outbox && (
+                    <Badge
+                      variant={outboxRetryAt ? "destructive" : "outline"}
+                      className="text-[11px]"
+                      title={
+                        outboxRetryAt
+                          ? `Reintento a las ${fmtTime(new Date(outboxRetryAt).toISOString())}`
+                          : undefined
+                      }
+                    >
+                      Pendientes {outbox.pending} · Sincronizados{" "}
+                      {outbox.synced}
+                    </Badge>
+                  )}
+                  {captureStats && (
+                    <Badge
+                      variant={captureStats.lastError ? "destructive" : "outline"}
+                      className="text-[11px]"
+                      title={captureStats.lastError ?? undefined}
+                    >
+                      Captura {captureStats.samples} muestras · bloques{" "}
+                      {captureStats.uploadedChunks}/
+                      {captureStats.uploadedChunks + captureStats.pendingChunks}
+                    </Badge>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -506,6 +1333,12 @@ export default function MonitoringPage() {
               </div>
             </CardContent>
           </Card>
+
+          <SerialConsole
+            feed={consoleFeed}
+            onSend={handleConsoleSend}
+            disabled={!isConnected || isReplay}
+          />
         </div>
 
         {/* Columna derecha: configuración y control */}
@@ -593,9 +1426,70 @@ export default function MonitoringPage() {
                       </span>
                     </div>
                   </div>
+                  <div className="space-y-1">
+                    <label className="text-[11px] text-muted-foreground">
+                      Tiempo de liberación
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        className="h-8 text-xs"
+                        value={releaseTimeSeconds}
+                        onChange={(e) =>
+                          setReleaseTimeSeconds(Number(e.target.value) || 0)
+                        }
+                        disabled={!!session}
+                      />
+                      <span className="text-[11px] text-muted-foreground">
+                        seg
+                      </span>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[11px] text-muted-foreground">
+                      Ciclos (0 = hasta detener)
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        className="h-8 text-xs"
+                        value={cycleTarget}
+                        onChange={(e) =>
+                          setCycleTarget(
+                            Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                          )
+                        }
+                        disabled={!!session}
+                      />
+                    </div>
+                  </div>
                 </div>
               </div>
 
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  className="accent-primary"
+                  checked={captureEnabled}
+                  onChange={(e) => setCaptureEnabled(e.target.checked)}
+                  disabled={!!session || !isCaptureSupported()}
+                />
+                <span>Captura completa (todas las tramas del equipo)</span>
+              </label>
+
+              <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                <ShieldAlert className="h-3.5 w-3.5" />
+                <span>
+                  Parada automática si la presión supera{" "}
+                  {safetyLimits.maxPressureKpa.toFixed(1)} kPa o la temperatura{" "}
+                  {safetyLimits.maxTemperatureC.toFixed(1)} °C.
+                </span>
+              </div>
+
               <div className="flex justify-end">
                 <Button
                   size="sm"
@@ -627,26 +1521,36 @@ export default function MonitoringPage() {
                     <Usb className="h-4 w-4 text-muted-foreground" />
                     <span className="text-xs font-medium">Dispositivo</span>
                   </div>
-                  <Badge
-                    variant={isWebSerialSupported() ? "outline" : "destructive"}
-                    className="text-[10px]"
-                  >
-                    {isWebSerialSupported()
-                      ? "WebSerial disponible"
-                      : "WebSerial no soportado"}
-                  </Badge>
+                  <div className="flex gap-1">
+                    <Badge
+                      variant={
+                        isWebSerialSupported() ? "outline" : "destructive"
+                      }
+                      className="text-[10px]"
+                    >
+                      {isWebSerialSupported()
+                        ? "WebSerial disponible"
+                        : "WebSerial no soportado"}
+                    </Badge>
+                    <Badge
+                      variant={isWebBluetoothSupported() ? "outline" : "secondary"}
+                      className="text-[10px]"
+                    >
+                      {isWebBluetoothSupported() ? "BLE disponible" : "Sin BLE"}
+                    </Badge>
+                  </div>
                 </div>
-                <div className="grid gap-2 sm:grid-cols-[minmax(0,1.4fr)_auto]">
+                <div className="grid gap-2 sm:grid-cols-[minmax(0,1.4fr)_auto_auto]">
                   <select
                     className="w-full rounded-md border bg-background px-3 py-2 text-sm"
                     value={selectedPortIdx}
-                    onChange={(e) => setSelectedPortIdx(Number(e.target.value))}
+                    onChange={(e) => handleSelectDevice(Number(e.target.value))}
                     disabled={!canPickDevice}
                   >
                     <option value={-1}>— Selecciona dispositivo —</option>
-                    {ports.map((_p, idx) => (
+                    {devices.map((p, idx) => (
                       <option key={idx} value={idx}>
-                        Dispositivo #{idx + 1}
+                        {deviceLabel(p, knownDevices[deviceKey(p, idx)])}
                       </option>
                     ))}
                   </select>
@@ -658,6 +1562,14 @@ export default function MonitoringPage() {
                   >
                     Escanear
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRequestBlePort}
+                    disabled={!canPickDevice || !isWebBluetoothSupported()}
+                  >
+                    <Bluetooth className="h-4 w-4 mr-1" /> BLE
+                  </Button>
                 </div>
               </div>
 
@@ -697,6 +1609,102 @@ export default function MonitoringPage() {
                 </div>
               </div>
 
+              {deviceInfo && <DeviceInfoRow info={deviceInfo} />}
+
+              {linkStats && <LinkStatsRow stats={linkStats} />}
+
+              {isConnected && (
+                <div className="flex items-center justify-between text-[11px]">
+                  <span className="text-muted-foreground">Último ACK</span>
+                  <span className="font-mono">
+                    {pendingCommand
+                      ? `Enviando ${pendingCommand}…`
+                      : lastAck
+                        ? `${lastAck.command} ${lastAck.result}`
+                        : "—"}
+                  </span>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium">Formato de telemetría</span>
+                <select
+                  className="rounded-md border bg-background px-2 py-1 text-xs"
+                  value={parserId}
+                  onChange={(e) => handleParserChange(e.target.value)}
+                  disabled={isMonitoring}
+                >
+                  <option value="auto">
+                    Automático
+                    {detectedParser ? ` (${detectedParser})` : ""}
+                  </option>
+                  {getTelemetryParsers().map((parser) => (
+                    <option key={parser.id} value={parser.id}>
+                      {parser.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-medium">Grabación de la línea serie</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleToggleRecording}
+                  >
+                    {recordedCount === null
+                      ? "Grabar"
+                      : `Descargar (${recordedCount} líneas)`}
+                  </Button>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-[minmax(0,1fr)_auto_auto]">
+                  <Input
+                    type="file"
+                    accept=".ndjson,.jsonl,application/x-ndjson"
+                    className="h-8 text-xs"
+                    onChange={(e) => void handlePickReplay(e.target.files?.[0])}
+                    disabled={isConnected}
+                  />
+                  <select
+                    className="rounded-md border bg-background px-2 text-xs"
+                    value={replaySpeed}
+                    onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                    disabled={isConnected}
+                  >
+                    {[1, 2, 5, 10].map((speed) => (
+                      <option key={speed} value={speed}>
+                        x{speed}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleReplay}
+                    disabled={isConnected || !replayLines}
+                  >
+                    <Play className="h-4 w-4 mr-1" /> Reproducir
+                  </Button>
+                </div>
+                {isReplay && (
+                  <p className="text-[11px] text-muted-foreground">
+                    Reproduciendo {replayLines?.length ?? 0} líneas a x
+                    {replaySpeed}. Desconecta para terminar.
+                  </p>
+                )}
+              </div>
+
+              {isConnected && !isReplay && (
+                <ConfigCheck
+                  status={configStatus}
+                  mismatches={configMismatches}
+                  onResend={handleSyncConfig}
+                  disabled={!canSyncConfig}
+                />
+              )}
+
               <Separator />
 
               {/* Start / Stop */}
@@ -740,6 +1748,135 @@ export default function MonitoringPage() {
 }
 
 // UI helpers
+function SafetyAlarmBanner({
+  alarm,
+  stop,
+  onRetryStop,
+  onAcknowledge,
+}: {
+  alarm: SafetyAlarm;
+  stop: EmergencyStopStatus | null;
+  onRetryStop: () => void;
+  onAcknowledge: () => void;
+}) {
+  const stopText = {
+    pending: "Enviando parada al dispositivo…",
+    confirmed: "El dispositivo confirmó la parada.",
+    failed:
+      "El dispositivo NO confirmó la parada. Retire la banda o abra la válvula manualmente.",
+  };
+  return (
+    <Card className="border-destructive bg-destructive/10">
+      <CardHeader className="py-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-destructive" />
+            <div>
+              <CardTitle className="text-sm text-destructive">
+                {formatSafetyAlarm(alarm)}
+              </CardTitle>
+              <CardDescription className="text-xs">
+                {fmtTime(alarm.at)} · {stop ? stopText[stop] : ""}
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {stop === "failed" && (
+              <Button variant="destructive" size="sm" onClick={onRetryStop}>
+                <Square className="h-4 w-4 mr-1" /> Reintentar parada
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onAcknowledge}
+              disabled={stop === "pending"}
+            >
+              Reconocer alarma
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function BandFitBanner({
+  warnings,
+  onDismiss,
+}: {
+  warnings: BandFitWarning[];
+  onDismiss: () => void;
+}) {
+  const latest = warnings.slice(-3).reverse();
+  const flaggedCycles = new Set(
+    warnings.filter((w) => w.scope === "cycle").map((w) => w.cycle),
+  ).size;
+  return (
+    <Card className="border-amber-500/50 bg-amber-500/5">
+      <CardHeader className="py-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="mt-0.5 h-4 w-4 text-amber-600" />
+            <div className="space-y-1">
+              <CardTitle className="text-sm">
+                Posible banda mal ajustada · {flaggedCycles} ciclo
+                {flaggedCycles === 1 ? "" : "s"} marcado
+                {flaggedCycles === 1 ? "" : "s"}
+              </CardTitle>
+              {latest.map((w) => (
+                <CardDescription key={`${w.kind}-${w.scope}-${w.at}`} className="text-xs">
+                  {fmtTime(new Date(w.at).toISOString())} · {formatBandFitWarning(w)}
+                </CardDescription>
+              ))}
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={onDismiss}>
+            Ocultar
+          </Button>
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function ReconnectBanner({
+  since,
+  onCancel,
+}: {
+  since: number;
+  onCancel: () => void;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return (
+    <Card className="border-amber-500/50 bg-amber-500/5">
+      <CardHeader className="py-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Unplug className="h-4 w-4 text-amber-600" />
+            <div>
+              <CardTitle className="text-sm">
+                Reconectando con el dispositivo…
+              </CardTitle>
+              <CardDescription className="text-xs">
+                Sin datos desde hace {fmtDuration(now - since)}. La sesión se
+                retoma sola al volver a conectar el mismo equipo.
+              </CardDescription>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancelar
+          </Button>
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
+
 function MetricBox({
   title,
   value,
@@ -790,3 +1927,125 @@ function Chip({
     </div>
   );
 }
+
+function DeviceInfoRow({ info }: { info: DeviceInfo }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 text-[11px]">
+      {[
+        { label: "Nº de serie", value: info.serialNumber },
+        { label: "Firmware", value: info.firmwareVersion },
+        { label: "Hardware", value: info.hardwareRevision },
+      ].map((item) => (
+        <div key={item.label} className="rounded-md border bg-muted/40 px-2 py-1">
+          <p className="text-muted-foreground">{item.label}</p>
+          <p className="font-mono text-[12px] truncate">{item.value ?? "—"}</p>
+        </div>
+      ))}
+      {info.commands.length > 0 && (
+        <p className="col-span-3 text-muted-foreground">
+          Comandos:{" "}
+          <span className="font-mono">{info.commands.join(" ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function LinkStatsRow({ stats }: { stats: FrameStats }) {
+  return (
+    <div className="grid grid-cols-4 gap-2 text-[11px]">
+      {[
+        { label: "Tramas", value: stats.received + stats.unframed },
+        { label: "Perdidas", value: stats.dropped },
+        { label: "Corruptas", value: stats.corrupted },
+        { label: "Desordenadas", value: stats.outOfOrder },
+      ].map((item, idx) => (
+        <div
+          key={item.label}
+          className={
+            "rounded-md border px-2 py-1 " +
+            (idx > 0 && item.value > 0
+              ? "border-amber-500/40 bg-amber-500/5"
+              : "bg-muted/40")
+          }
+        >
+          <p className="text-muted-foreground">{item.label}</p>
+          <p className="font-mono text-[12px]">{item.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ConfigCheck({
+  status,
+  mismatches,
+  onResend,
+  disabled,
+}: {
+  status: ConfigStatus;
+  mismatches: ConfigMismatch[];
+  onResend: () => void;
+  disabled: boolean;
+}) {
+  const label = {
+    idle: "Sin enviar",
+    pending: "Verificando…",
+    verified: "Verificados",
+    mismatch: "No coinciden",
+    legacy: "Sin verificar",
+  }[status];
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <div className="flex items-center gap-2">
+          <Settings2 className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Parámetros en el equipo</span>
+          <Badge
+            variant={
+              status === "verified"
+                ? "default"
+                : status === "mismatch"
+                  ? "destructive"
+                  : "secondary"
+            }
+            className="text-[10px]"
+          >
+            {label}
+          </Badge>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onResend}
+          disabled={disabled || status === "legacy"}
+        >
+          Reenviar
+        </Button>
+      </div>
+      {status === "legacy" && (
+        <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-2 text-[11px] text-amber-600">
+          Equipo sin identificar (firmware anterior): no acepta parámetros ni
+          confirma órdenes. Ajuste presión y tiempos en el propio equipo, elija
+          el formato de telemetría si no se detecta y vigile la parada.
+        </div>
+      )}
+      {mismatches.length > 0 && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 p-2 text-[11px] space-y-1">
+          <p className="text-destructive font-medium">
+            El equipo no aplicó la configuración de la sesión. No se puede
+            iniciar hasta que coincida.
+          </p>
+          {mismatches.map((m) => (
+            <div key={m.field} className="flex items-center justify-between">
+              <span className="text-muted-foreground">{m.label}</span>
+              <span className="font-mono">
+                sesión {m.expected} · equipo {m.actual ?? "—"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,547 @@
+import { useEffect, useRef, useState } from "react";
+import { Line, LineChart, ResponsiveContainer, YAxis } from "recharts";
+import { sessionService } from "@/modules/Session/data/session.service";
+import { sessionOutboxStore } from "@/modules/Session/data/session.outbox";
+import { patientService } from "@/modules/Patient/data/patient.service";
+import type { Patient } from "@/modules/Patient/patient.interface";
+
+import {
+  getAuthorizedPorts,
+  isWebSerialSupported,
+  requestPort,
+} from "./serialAdapter";
+import type { SerialPort } from "./serial.interface";
+import { VirtualSerialPort, isVirtualPort } from "./virtualDevice";
+import {
+  createDeviceSession,
+  type DeviceSession,
+  type DeviceSessionSnapshot,
+  type DeviceSessionStatus,
+} from "./deviceSession";
+import { formatSafetyAlarm, sessionSafetyLimits } from "./safetyWatchdog";
+
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Play, Plus, Square, ShieldAlert, X } from "lucide-react";
+
+// Opción del selector para crear un equipo simulado nuevo
+const NEW_SIMULATED = "simulado";
+
+const STATUS_LABEL: Record<DeviceSessionStatus, string> = {
+  connecting: "Conectando…",
+  ready: "Listo",
+  running: "Ciclos en ejecución",
+  alarm: "Alarma",
+  stopUnconfirmed: "Parada sin confirmar",
+  error: "Error",
+  closed: "Desconectado",
+};
+
+// Equipos que pueden estar inflando: hay que detenerlos antes de soltarlos
+function isActiveTile(tile: DeviceSessionSnapshot): boolean {
+  return (
+    tile.status === "running" ||
+    tile.status === "alarm" ||
+    tile.status === "stopUnconfirmed"
+  );
+}
+
+function portLabel(port: SerialPort, idx: number): string {
+  if (isVirtualPort(port)) return port.label;
+  const info = port.getInfo?.();
+  const hex = (n?: number) => (n ?? 0).toString(16).padStart(4, "0");
+  return info?.usbVendorId !== undefined
+    ? `USB ${hex(info.usbVendorId)}:${hex(info.usbProductId)}`
+    : `Puerto serie ${idx + 1}`;
+}
+
+/**
+ * Tablero multi-equipo: cada banda conectada tiene su sesión, lectura,
+ * vigilancia y cola de subida propias (ver deviceSession).
+ */
+export function MonitoringBoard() {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [ports, setPorts] = useState<SerialPort[]>([]);
+  const [err, setErr] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  // Formulario de alta de equipo
+  const [patientId, setPatientId] = useState("");
+  const [portChoice, setPortChoice] = useState<string>(NEW_SIMULATED);
+  const [targetPressure, setTargetPressure] = useState(30);
+  const [holdTimeSeconds, setHoldTimeSeconds] = useState(10);
+  const [releaseTimeSeconds, setReleaseTimeSeconds] = useState(5);
+  const [cycleTarget, setCycleTarget] = useState(0);
+
+  // Controladores por equipo; la UI pinta sus instantáneas
+  const devicesRef = useRef(new Map<string, DeviceSession>());
+  const [tiles, setTiles] = useState<DeviceSessionSnapshot[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setPatients((await patientService.findAll()) ?? []);
+      } catch (e: unknown) {
+        const message =
+          e instanceof Error
+            ? e.message
+            : "No se pudieron cargar los pacientes.";
+        setErr(message);
+      }
+      if (isWebSerialSupported()) setPorts(await getAuthorizedPorts());
+    })();
+  }, []);
+
+  // Al salir del tablero se detienen (S con ACK) y cierran las conexiones
+  useEffect(() => {
+    const devices = devicesRef.current;
+    return () => {
+      for (const device of devices.values()) void device.close();
+    };
+  }, []);
+
+  const portInUse = (port: SerialPort) =>
+    tiles.some(
+      (t) =>
+        t.status !== "closed" && devicesRef.current.get(t.id)?.port === port,
+    );
+  const availablePatients = patients.filter(
+    (p) =>
+      !tiles.some(
+        (t) => t.session.patient.id === p.id && t.status !== "closed",
+      ),
+  );
+  const running = tiles.filter(isActiveTile);
+  const canAdd =
+    !!patientId &&
+    !adding &&
+    targetPressure > 0 &&
+    holdTimeSeconds > 0 &&
+    releaseTimeSeconds > 0;
+
+  const upsertTile = (snapshot: DeviceSessionSnapshot) =>
+    setTiles((prev) => {
+      const idx = prev.findIndex((t) => t.id === snapshot.id);
+      if (idx < 0) return [...prev, snapshot];
+      const next = [...prev];
+      next[idx] = snapshot;
+      return next;
+    });
+
+  const handleScan = async (): Promise<void> => {
+    try {
+      const port = await requestPort();
+      const list = await getAuthorizedPorts();
+      setPorts(list);
+      setPortChoice(String(list.indexOf(port)));
+    } catch {
+      // cancelado por el usuario
+    }
+  };
+
+  const handleAdd = async (): Promise<void> => {
+    const patient = patients.find((p) => p.id === patientId);
+    if (!patient) return;
+    const port =
+      portChoice === NEW_SIMULATED
+        ? new VirtualSerialPort()
+        : ports[Number(portChoice)];
+    if (!port || portInUse(port)) {
+      setErr("Ese puerto ya está en uso en el tablero.");
+      return;
+    }
+
+    setAdding(true);
+    setErr(null);
+    try {
+      const session = await sessionService.create({
+        patientId,
+        targetPressure,
+        holdTimeSeconds,
+        releaseTimeSeconds,
+        cycleTarget,
+      });
+      const device = createDeviceSession(
+        {
+          id: crypto.randomUUID(),
+          port,
+          label: portLabel(port, Number(portChoice)),
+          patientName: patient.user.fullname,
+          session,
+          config: {
+            targetPressureKpa: targetPressure,
+            holdTimeMs: holdTimeSeconds * 1000,
+            releaseTimeMs: releaseTimeSeconds * 1000,
+            cycleTarget,
+          },
+        },
+        upsertTile,
+      );
+      devicesRef.current.set(device.id, device);
+      upsertTile(device.snapshot());
+      setPatientId("");
+      void device.connect();
+    } catch (e: unknown) {
+      const message =
+        e instanceof Error ? e.message : "Error creando la sesión.";
+      setErr(message);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (id: string): Promise<void> => {
+    const device = devicesRef.current.get(id);
+    if (!device) return;
+    await device.close();
+    devicesRef.current.delete(id);
+    setTiles((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  const handleStopAll = async (): Promise<void> => {
+    await Promise.all(
+      running.map((t) => devicesRef.current.get(t.id)?.stop()),
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="text-lg sm:text-xl font-semibold tracking-tight">
+            Tablero de equipos
+          </h2>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Cada banda conectada ejecuta su propia sesión. {tiles.length}{" "}
+            equipos · {running.length} en ciclos.
+          </p>
+        </div>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={handleStopAll}
+          disabled={running.length === 0}
+        >
+          <Square className="h-4 w-4 mr-2" /> Detener todos
+        </Button>
+      </div>
+
+      {err && (
+        <Card className="border-destructive/50 bg-destructive/5">
+          <CardHeader className="py-3">
+            <CardTitle className="text-sm text-destructive">
+              Error del tablero
+            </CardTitle>
+            <CardDescription className="text-xs">{err}</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {/* Alta de equipo */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-semibold">Añadir equipo</CardTitle>
+          <CardDescription className="text-xs">
+            Crea la sesión del paciente y conecta su banda.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-3 md:grid-cols-3 xl:grid-cols-[minmax(0,1.4fr)_minmax(0,1.4fr)_repeat(4,minmax(0,0.7fr))_auto] items-end">
+          <label className="space-y-1 text-[11px] text-muted-foreground">
+            Paciente
+            <select
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm text-foreground"
+              value={patientId}
+              onChange={(e) => setPatientId(e.target.value)}
+            >
+              <option value="">— Selecciona paciente —</option>
+              {availablePatients.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.user.fullname}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-[11px] text-muted-foreground">
+            Dispositivo
+            <div className="flex gap-2">
+              <select
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm text-foreground"
+                value={portChoice}
+                onChange={(e) => setPortChoice(e.target.value)}
+              >
+                {ports.map((p, idx) => (
+                  <option key={idx} value={idx} disabled={portInUse(p)}>
+                    {portLabel(p, idx)}
+                    {portInUse(p) ? " (en uso)" : ""}
+                  </option>
+                ))}
+                <option value={NEW_SIMULATED}>Nuevo dispositivo simulado</option>
+              </select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleScan}
+                disabled={!isWebSerialSupported()}
+              >
+                Escanear
+              </Button>
+            </div>
+          </label>
+          <NumberField
+            label="Presión (kPa)"
+            value={targetPressure}
+            step={0.5}
+            onChange={setTargetPressure}
+          />
+          <NumberField
+            label="Mantener (s)"
+            value={holdTimeSeconds}
+            onChange={setHoldTimeSeconds}
+          />
+          <NumberField
+            label="Liberar (s)"
+            value={releaseTimeSeconds}
+            onChange={setReleaseTimeSeconds}
+          />
+          <NumberField
+            label="Ciclos (0 = ∞)"
+            value={cycleTarget}
+            min={0}
+            onChange={(v) => setCycleTarget(Math.max(0, Math.floor(v)))}
+          />
+          <Button size="sm" onClick={handleAdd} disabled={!canAdd}>
+            <Plus className="h-4 w-4 mr-1" /> Añadir
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Vista general */}
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        {tiles.map((tile) => {
+          const device = devicesRef.current.get(tile.id);
+          return (
+            <DeviceTile
+              key={tile.id}
+              tile={tile}
+              onStart={() => void device?.start()}
+              onStop={() => void device?.stop()}
+              onAcknowledge={() => device?.acknowledgeAlarm()}
+              onReconnect={() => void device?.connect()}
+              onRemove={() => void handleRemove(tile.id)}
+            />
+          );
+        })}
+        {tiles.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Aún no hay equipos en el tablero.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// UI helpers
+function NumberField({
+  label,
+  value,
+  onChange,
+  min = 1,
+  step = 1,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  step?: number;
+}) {
+  return (
+    <label className="space-y-1 text-[11px] text-muted-foreground">
+      {label}
+      <Input
+        type="number"
+        min={min}
+        step={step}
+        className="h-9 text-xs"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value) || 0)}
+      />
+    </label>
+  );
+}
+
+function DeviceTile({
+  tile,
+  onStart,
+  onStop,
+  onAcknowledge,
+  onReconnect,
+  onRemove,
+}: {
+  tile: DeviceSessionSnapshot;
+  onStart: () => void;
+  onStop: () => void;
+  onAcknowledge: () => void;
+  onReconnect: () => void;
+  onRemove: () => void;
+}) {
+  const outbox = sessionOutboxStore((s) => s.counters[tile.session.id]);
+  const limits = sessionSafetyLimits(tile.session.targetPressure);
+  const pressure = tile.last?.measuredPressure;
+  const isRunning = isActiveTile(tile);
+  const chart = tile.history.map((r, i) => ({ i, p: r.measuredPressure }));
+
+  return (
+    <Card
+      className={
+        tile.status === "alarm" || tile.status === "stopUnconfirmed"
+          ? "border-destructive bg-destructive/5"
+          : tile.status === "error"
+            ? "border-amber-500/50"
+            : undefined
+      }
+    >
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="text-sm font-semibold truncate">
+              {tile.patientName}
+            </CardTitle>
+            <CardDescription className="text-[11px] truncate">
+              {tile.label}
+              {tile.info?.serialNumber ? ` · SN ${tile.info.serialNumber}` : ""}{" "}
+              · Sesión #{tile.session.id.slice(0, 8)}
+            </CardDescription>
+          </div>
+          <Badge
+            variant={
+              tile.status === "alarm" ||
+              tile.status === "stopUnconfirmed" ||
+              tile.status === "error"
+                ? "destructive"
+                : tile.status === "running"
+                  ? "default"
+                  : "secondary"
+            }
+            className="text-[10px] shrink-0"
+          >
+            {tile.pendingCommand
+              ? `Enviando ${tile.pendingCommand}…`
+              : STATUS_LABEL[tile.status]}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="rounded-md border bg-muted/40 px-2 py-1">
+            <p className="text-[11px] text-muted-foreground">Presión</p>
+            <p className="font-mono text-lg">
+              {pressure === undefined ? "—" : pressure.toFixed(1)}
+              <span className="text-[11px] text-muted-foreground"> kPa</span>
+            </p>
+            <Progress
+              value={
+                pressure === undefined
+                  ? 0
+                  : Math.min(100, (pressure / limits.maxPressureKpa) * 100)
+              }
+              className="h-1"
+            />
+          </div>
+          <div className="rounded-md border bg-muted/40 px-2 py-1">
+            <p className="text-[11px] text-muted-foreground">Temperatura</p>
+            <p className="font-mono text-lg">
+              {tile.last ? tile.last.temperature.toFixed(1) : "—"}
+              <span className="text-[11px] text-muted-foreground"> °C</span>
+            </p>
+            <p className="text-[11px] text-muted-foreground">
+              Ciclo {tile.last?.cycleIndex ?? "—"}
+            </p>
+          </div>
+        </div>
+
+        <div className="h-14">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chart}>
+              <YAxis hide domain={[0, limits.maxPressureKpa]} />
+              <Line
+                type="monotone"
+                dataKey="p"
+                dot={false}
+                strokeWidth={1.5}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="flex items-center justify-between text-[11px] text-muted-foreground">
+          <span>
+            Pendientes {outbox?.pending ?? 0} · Sincronizados{" "}
+            {outbox?.synced ?? 0}
+          </span>
+          {tile.stats && (
+            <span>
+              Perdidas {tile.stats.dropped} · Corruptas {tile.stats.corrupted}
+            </span>
+          )}
+        </div>
+
+        {tile.alarm && (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-destructive/40 bg-destructive/5 p-2 text-[11px]">
+            <span className="flex items-center gap-1 text-destructive">
+              <ShieldAlert className="h-3.5 w-3.5" />
+              {formatSafetyAlarm(tile.alarm)}
+            </span>
+            <Button variant="outline" size="sm" onClick={onAcknowledge}>
+              Reconocer
+            </Button>
+          </div>
+        )}
+        {tile.error && (
+          <p className="text-[11px] text-destructive">{tile.error}</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {(tile.status === "error" || tile.status === "closed") && (
+            <Button variant="outline" size="sm" onClick={onReconnect}>
+              Reconectar
+            </Button>
+          )}
+          {!isRunning && (
+            <Button variant="ghost" size="sm" onClick={onRemove}>
+              <X className="h-4 w-4 mr-1" /> Quitar
+            </Button>
+          )}
+          {isRunning ? (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={onStop}
+              disabled={!!tile.pendingCommand}
+            >
+              <Square className="h-4 w-4 mr-1" /> Detener
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={onStart}
+              disabled={tile.status !== "ready" || !!tile.pendingCommand}
+            >
+              <Play className="h-4 w-4 mr-1" /> Iniciar
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+// src/modules/Monitoring/safetyWatchdog.ts
+import { COMPRESSION_SAFETY_LIMITS } from "@/types/constants";
+import type { RealtimeRow } from "./telemetryParsers";
+
+/**
+ * Vigilancia de seguridad en el navegador: cada lectura se compara con
+ * los límites de la sesión. Al dispararse la alarma queda enclavada
+ * hasta que el operador la reconoce; mientras tanto no vuelve a avisar.
+ */
+
+export type SafetyAlarmKind = "overpressure" | "overtemperature";
+
+export interface SafetyLimits {
+  maxPressureKpa: number;
+  maxTemperatureC: number;
+}
+
+export interface SafetyAlarm {
+  kind: SafetyAlarmKind;
+  value: number;
+  limit: number;
+  at: string; // ISO de la lectura que disparó
+}
+
+export interface SafetyWatchdog {
+  limits: SafetyLimits;
+  /** Evalúa una lectura; devuelve la alarma solo en el momento de dispararse */
+  check: (reading: RealtimeRow) => SafetyAlarm | null;
+  latched: () => SafetyAlarm | null;
+  acknowledge: () => void;
+}
+
+export const SAFETY_ALARM_LABEL: Record<SafetyAlarmKind, string> = {
+  overpressure: "Sobrepresión",
+  overtemperature: "Sobretemperatura",
+};
+
+/** "Sobrepresión: 47.2 kPa (límite 37.5 kPa)" */
+export function formatSafetyAlarm(alarm: SafetyAlarm): string {
+  const unit = alarm.kind === "overpressure" ? "kPa" : "°C";
+  return `${SAFETY_ALARM_LABEL[alarm.kind]}: ${alarm.value.toFixed(1)} ${unit} (límite ${alarm.limit.toFixed(1)} ${unit})`;
+}
+
+/** Límites de la sesión: margen sobre la presión objetivo, nunca sobre el absoluto */
+export function sessionSafetyLimits(targetPressureKpa: number): SafetyLimits {
+  const { PRESSURE_KPA, TEMPERATURE_C } = COMPRESSION_SAFETY_LIMITS;
+  const byTarget = Math.max(
+    targetPressureKpa * PRESSURE_KPA.TARGET_RATIO,
+    targetPressureKpa + PRESSURE_KPA.TARGET_MARGIN,
+  );
+  return {
+    maxPressureKpa: Math.min(byTarget, PRESSURE_KPA.MAX),
+    maxTemperatureC: TEMPERATURE_C.MAX,
+  };
+}
+
+export function createSafetyWatchdog(limits: SafetyLimits): SafetyWatchdog {
+  let alarm: SafetyAlarm | null = null;
+  // Lecturas seguidas fuera de rango: filtra picos de ruido aislados
+  const streak: Record<SafetyAlarmKind, number> = {
+    overpressure: 0,
+    overtemperature: 0,
+  };
+
+  const evaluate = (
+    kind: SafetyAlarmKind,
+    value: number,
+    limit: number,
+    at: string,
+  ): SafetyAlarm | null => {
+    streak[kind] = value > limit ? streak[kind] + 1 : 0;
+    if (streak[kind] < COMPRESSION_SAFETY_LIMITS.CONSECUTIVE_READINGS) {
+      return null;
+    }
+    return { kind, value, limit, at };
+  };
+
+  return {
+    limits,
+    check(reading) {
+      const pressure = evaluate(
+        "overpressure",
+        reading.measuredPressure,
+        limits.maxPressureKpa,
+        reading.timestamp,
+      );
+      const temperature = evaluate(
+        "overtemperature",
+        reading.temperature,
+        limits.maxTemperatureC,
+        reading.timestamp,
+      );
+      const tripped = pressure ?? temperature;
+      if (!tripped || alarm) return null;
+      alarm = tripped;
+      return tripped;
+    },
+    latched: () => alarm,
+    acknowledge() {
+      alarm = null;
+      streak.overpressure = 0;
+      streak.overtemperature = 0;
+    },
+  };
+}
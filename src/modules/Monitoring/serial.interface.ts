@@ -9,15 +9,30 @@ export interface SerialPortOpenOptions {
   flowControl?: "none" | "hardware";
 }
 
-export interface Serial {
+// Emite "connect" y "disconnect"; el target del evento es el SerialPort
+export interface Serial extends EventTarget {
   getPorts(): Promise<SerialPort[]>;
   requestPort(options?: {
     filters?: Array<{ usbVendorId?: number; usbProductId?: number }>;
   }): Promise<SerialPort>;
 }
 
+export interface SerialPortInfo {
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+// Líneas de control (DTR/RTS): reinician el ESP32 en modo bootloader
+export interface SerialOutputSignals {
+  dataTerminalReady?: boolean;
+  requestToSend?: boolean;
+  break?: boolean;
+}
+
 export interface SerialPort {
   open(options: SerialPortOpenOptions): Promise<void>;
+  getInfo?(): SerialPortInfo;
+  setSignals?(signals: SerialOutputSignals): Promise<void>;
   close(): Promise<void>;
   readonly readable: ReadableStream<Uint8Array> | null;
   readonly writable: WritableStream<Uint8Array> | null;
@@ -4,10 +4,30 @@ import type { SerialPort } from "./serial.interface"; // asegúrate de esta ruta
 export type LineReader = ReadableStreamDefaultReader<string>;
 export type LineWriter = WritableStreamDefaultWriter<string>;
 
+/** Contadores del enlace: permiten distinguir un cable dañado de un equipo callado */
+export interface FrameStats {
+  received: number; // tramas válidas entregadas
+  dropped: number; // números de secuencia que nunca llegaron
+  corrupted: number; // CRC inválido o trama mal formada
+  outOfOrder: number; // tramas atrasadas o duplicadas (se descartan)
+  unframed: number; // líneas sin trama (firmware antiguo), se entregan tal cual
+}
+
+/** Qué hizo el deframer con una línea cruda */
+export type FrameVerdict = "delivered" | "corrupted" | "outOfOrder";
+
+/** Ve cada línea tal como llegó, antes de quitarle la trama */
+export type RawLineListener = (
+  raw: string,
+  verdict: FrameVerdict,
+  payload?: string, // lo que se entrega al reader si verdict es "delivered"
+) => void;
+
 export interface SerialIO {
   reader: LineReader;
   writer: LineWriter;
   close: () => Promise<void>;
+  getStats: () => FrameStats;
 }
 
 export function isWebSerialSupported(): boolean {
@@ -52,13 +72,118 @@ class LineBreakTransformer implements Transformer<string, string> {
   }
 }
 
+/**
+ * Formato de trama (una por línea):
+ *   #<seq>:<payload>*<crc>
+ * - seq: entero 0..65535 que el ESP incrementa por trama (da la vuelta)
+ * - crc: CRC-16/CCITT-FALSE en hex (4 dígitos) de "<seq>:<payload>"
+ * Las líneas que no empiezan con "#" se consideran del firmware sin tramas.
+ */
+const FRAME_PREFIX = "#";
+const SEQ_MODULO = 0x10000;
+const FRAME_RE = /^#(\d{1,5}):(.*)\*([0-9A-Fa-f]{4})$/;
+// Tras un reinicio del ESP la secuencia vuelve a 0: un salto atrás hasta
+// una seq baja, o varias tramas seguidas "fuera de orden", es un reinicio
+const RESTART_MAX_SEQ = 64;
+const RESTART_RUN = 5;
+
+export function createFrameStats(): FrameStats {
+  return { received: 0, dropped: 0, corrupted: 0, outOfOrder: 0, unframed: 0 };
+}
+
+/** CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) sobre los bytes UTF-8 */
+export function crc16(text: string): number {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(text)) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/** Arma una trama con secuencia y CRC (la usa también el simulador) */
+export function encodeFrame(seq: number, payload: string): string {
+  const body = `${seq % SEQ_MODULO}:${payload}`;
+  const crc = crc16(body).toString(16).toUpperCase().padStart(4, "0");
+  return `${FRAME_PREFIX}${body}*${crc}`;
+}
+
+/** Valida CRC y secuencia; solo deja pasar el payload de tramas buenas */
+class FrameDecoderTransformer implements Transformer<string, string> {
+  private lastSeq: number | null = null;
+  private outOfOrderRun = 0;
+  private readonly stats: FrameStats;
+  private readonly onRawLine?: RawLineListener;
+
+  constructor(stats: FrameStats, onRawLine?: RawLineListener) {
+    this.stats = stats;
+    this.onRawLine = onRawLine;
+  }
+
+  transform(
+    line: string,
+    controller: TransformStreamDefaultController<string>,
+  ) {
+    const s = line.trim();
+    if (!s.startsWith(FRAME_PREFIX)) {
+      this.stats.unframed++;
+      this.onRawLine?.(line, "delivered", s);
+      controller.enqueue(s);
+      return;
+    }
+
+    const match = FRAME_RE.exec(s);
+    if (!match) {
+      this.stats.corrupted++;
+      this.onRawLine?.(line, "corrupted");
+      return;
+    }
+    const [, seqText, payload, crcText] = match;
+    const seq = Number(seqText);
+    if (
+      seq >= SEQ_MODULO ||
+      crc16(`${seqText}:${payload}`) !== parseInt(crcText, 16)
+    ) {
+      this.stats.corrupted++;
+      this.onRawLine?.(line, "corrupted");
+      return;
+    }
+
+    if (this.lastSeq !== null) {
+      // Distancia hacia adelante con vuelta de contador
+      const delta = (seq - this.lastSeq + SEQ_MODULO) % SEQ_MODULO;
+      const restarted =
+        (delta > SEQ_MODULO / 2 && seq < RESTART_MAX_SEQ) ||
+        this.outOfOrderRun + 1 >= RESTART_RUN;
+      if ((delta === 0 || delta > SEQ_MODULO / 2) && !restarted) {
+        this.outOfOrderRun++;
+        this.stats.outOfOrder++;
+        this.onRawLine?.(line, "outOfOrder");
+        return;
+      }
+      // En un reinicio no se sabe cuántas se perdieron: no se cuentan
+      if (!restarted) this.stats.dropped += delta - 1;
+    }
+    this.outOfOrderRun = 0;
+    this.lastSeq = seq;
+    this.stats.received++;
+    this.onRawLine?.(line, "delivered", payload);
+    controller.enqueue(payload);
+  }
+}
+
 /**
  * Abre el puerto y devuelve IO por líneas (reader) + writer de string.
- * Solo se leen líneas completas; nunca trozos.
+ * Solo se leen líneas completas; nunca trozos. Las tramas se validan y
+ * se desenvuelven antes de llegar al reader (ver getStats()); `onRawLine`
+ * recibe además cada línea cruda, incluidas las tramas descartadas.
  */
 export async function openPort(
   port: SerialPort,
   baudRate = 115200,
+  onRawLine?: RawLineListener,
 ): Promise<SerialIO> {
   await port.open({ baudRate });
 
@@ -74,11 +199,15 @@ export async function openPort(
   );
   if (!writableClosed) throw new Error("El puerto no es escribible.");
 
-  // Reader de LÍNEAS completas (NDJSON)
+  // Reader de LÍNEAS completas (NDJSON), ya sin envoltorio de trama
+  const stats = createFrameStats();
   const reader = textDecoder.readable
     .pipeThrough(
       new TransformStream<string, string>(new LineBreakTransformer()),
     )
+    .pipeThrough(
+      new TransformStream<string, string>(new FrameDecoderTransformer(stats, onRawLine)),
+    )
     .getReader();
 
   // Writer de STRING (el encoder convierte a bytes)
@@ -112,7 +241,7 @@ export async function openPort(
     }
   };
 
-  return { reader, writer, close };
+  return { reader, writer, close, getStats: () => ({ ...stats }) };
 }
 
 /** Escribe una línea (agrega '\n' si falta) */
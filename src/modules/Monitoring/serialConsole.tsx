@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import {
+  loadCommandHistory,
+  pushCommandHistory,
+  type ConsoleFeed,
+  type ConsoleLine,
+  type ConsoleLineKind,
+} from "./consoleFeed";
+
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Pause, Play, Send, Terminal, Trash2 } from "lucide-react";
+
+const REFRESH_MS = 250; // la línea serie puede ir a 10+ líneas por segundo
+
+const KIND_LABEL: Record<ConsoleLineKind, string> = {
+  reading: "LEC",
+  ack: "ACK",
+  discarded: "DESC",
+  corrupted: "CRC",
+  sent: "TX",
+};
+
+const KIND_CLASS: Record<ConsoleLineKind, string> = {
+  reading: "text-muted-foreground",
+  ack: "text-sky-500",
+  discarded: "text-amber-500",
+  corrupted: "text-red-500",
+  sent: "text-emerald-500",
+};
+
+function fmtClock(t: number) {
+  const d = new Date(t);
+  return `${d.toLocaleTimeString("es-ES", { hour12: false })}.${String(d.getMilliseconds()).padStart(3, "0")}`;
+}
+
+/**
+ * Consola serie para técnicos: líneas crudas con hora, filtro y pausa, y
+ * envío de comandos arbitrarios con historial (flechas arriba/abajo).
+ */
+export function SerialConsole({
+  feed,
+  onSend,
+  disabled,
+}: {
+  feed: ConsoleFeed;
+  onSend: (command: string) => Promise<void>;
+  disabled: boolean;
+}) {
+  const [lines, setLines] = useState<ConsoleLine[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [query, setQuery] = useState("");
+  const [kind, setKind] = useState<ConsoleLineKind | "all">("all");
+  const [input, setInput] = useState("");
+  const [history, setHistory] = useState<string[]>(loadCommandHistory);
+  const [historyIdx, setHistoryIdx] = useState<number | null>(null);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  // Refresco agrupado; en pausa la vista queda congelada
+  useEffect(() => {
+    if (paused) return;
+    let dirty = true;
+    const unsubscribe = feed.subscribe(() => {
+      dirty = true;
+    });
+    const timer = setInterval(() => {
+      if (!dirty) return;
+      dirty = false;
+      setLines(feed.lines());
+    }, REFRESH_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [feed, paused]);
+
+  const needle = query.trim().toLowerCase();
+  const visible = lines.filter(
+    (l) =>
+      (kind === "all" || l.kind === kind) &&
+      (!needle || l.text.toLowerCase().includes(needle)),
+  );
+  const discarded = lines.filter((l) => l.kind === "discarded").length;
+  const corrupted = lines.filter((l) => l.kind === "corrupted").length;
+
+  // Seguir el final mientras no esté en pausa
+  useEffect(() => {
+    if (!paused && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [visible.length, paused]);
+
+  const send = async () => {
+    const command = input.trim();
+    if (!command) return;
+    setSendError(null);
+    try {
+      await onSend(command);
+      setHistory((prev) => pushCommandHistory(prev, command));
+      setHistoryIdx(null);
+      setInput("");
+    } catch (e: unknown) {
+      const message =
+        e instanceof Error ? e.message : "No se pudo enviar el comando.";
+      setSendError(message);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      void send();
+      return;
+    }
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    if (history.length === 0) return;
+    e.preventDefault();
+    const current = historyIdx ?? history.length;
+    const next =
+      e.key === "ArrowUp"
+        ? Math.max(0, current - 1)
+        : Math.min(history.length, current + 1);
+    setHistoryIdx(next === history.length ? null : next);
+    setInput(next === history.length ? "" : history[next]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-sm font-semibold flex items-center gap-2">
+              <Terminal className="h-4 w-4" /> Consola serie
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {lines.length} líneas · {discarded} descartadas · {corrupted}{" "}
+              corruptas
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPaused((p) => !p)}
+            >
+              {paused ? (
+                <Play className="h-4 w-4 mr-1" />
+              ) : (
+                <Pause className="h-4 w-4 mr-1" />
+              )}
+              {paused ? "Reanudar" : "Pausar"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                feed.clear();
+                setLines([]);
+              }}
+            >
+              <Trash2 className="h-4 w-4 mr-1" /> Limpiar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="grid gap-2 sm:grid-cols-[minmax(0,1fr)_auto]">
+          <Input
+            placeholder="Filtrar líneas…"
+            className="h-8 text-xs"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <select
+            className="rounded-md border bg-background px-2 text-xs"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ConsoleLineKind | "all")}
+          >
+            <option value="all">Todas</option>
+            <option value="reading">Lecturas</option>
+            <option value="ack">Confirmaciones</option>
+            <option value="discarded">Descartadas</option>
+            <option value="corrupted">Corruptas</option>
+            <option value="sent">Enviadas</option>
+          </select>
+        </div>
+
+        <div
+          ref={scrollRef}
+          className="h-64 overflow-auto rounded-md border bg-muted/30 p-2 font-mono text-[11px] leading-relaxed"
+        >
+          {visible.map((line) => (
+            <div key={line.id} className="flex gap-2 whitespace-pre-wrap break-all">
+              <span className="shrink-0 text-muted-foreground">
+                {fmtClock(line.t)}
+              </span>
+              <span className={`shrink-0 w-9 ${KIND_CLASS[line.kind]}`}>
+                {KIND_LABEL[line.kind]}
+              </span>
+              <span>{line.text}</span>
+            </div>
+          ))}
+          {visible.length === 0 && (
+            <p className="text-muted-foreground">Sin líneas.</p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder={
+              disabled ? "Conecta un dispositivo para enviar" : "Comando (↑/↓ historial)"
+            }
+            className="h-8 font-mono text-xs"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setHistoryIdx(null);
+            }}
+            onKeyDown={handleKeyDown}
+            disabled={disabled}
+          />
+          <Button
+            size="sm"
+            onClick={() => void send()}
+            disabled={disabled || !input.trim()}
+          >
+            <Send className="h-4 w-4 mr-1" /> Enviar
+          </Button>
+        </div>
+        {sendError && (
+          <p className="text-[11px] text-destructive">{sendError}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
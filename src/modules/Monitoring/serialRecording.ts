@@ -0,0 +1,108 @@
+// src/modules/Monitoring/serialRecording.ts
+import {
+  createFrameStats,
+  type LineReader,
+  type LineWriter,
+  type SerialIO,
+} from "./serialAdapter";
+
+/**
+ * Grabación y reproducción del flujo de líneas de SerialIO.reader.
+ * Archivo NDJSON, una línea por lectura:
+ *   {"t":<epoch ms>,"line":"<línea tal como salió del reader>"}
+ */
+
+export interface RecordedLine {
+  t: number;
+  line: string;
+}
+
+export interface SerialRecorder {
+  record: (line: string) => void;
+  count: () => number;
+  toBlob: () => Blob;
+}
+
+export function createSerialRecorder(): SerialRecorder {
+  const lines: RecordedLine[] = [];
+  return {
+    record(line) {
+      lines.push({ t: Date.now(), line });
+    },
+    count: () => lines.length,
+    toBlob: () =>
+      new Blob([lines.map((l) => JSON.stringify(l)).join("\n") + "\n"], {
+        type: "application/x-ndjson",
+      }),
+  };
+}
+
+export function recordingFileName(date = new Date()): string {
+  return `serie_${date.toISOString().replace(/[:.]/g, "-")}.ndjson`;
+}
+
+/** Lee un archivo de grabación; ignora líneas que no tengan el formato */
+export function parseRecording(text: string): RecordedLine[] {
+  const out: RecordedLine[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+    try {
+      const obj = JSON.parse(raw) as Partial<RecordedLine>;
+      if (typeof obj.t === "number" && typeof obj.line === "string") {
+        out.push({ t: obj.t, line: obj.line });
+      }
+    } catch {
+      // línea inválida: se descarta
+    }
+  }
+  return out.sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Fuente de reproducción con el mismo contrato que openPort: el reader
+ * entrega las líneas grabadas respetando los tiempos originales divididos
+ * por `speed`. El writer descarta lo que se le envía (no hay equipo).
+ */
+export function openReplay(lines: RecordedLine[], speed = 1): SerialIO {
+  const stats = createFrameStats();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let index = 0;
+
+  const readable = new ReadableStream<string>({
+    start(controller) {
+      const next = () => {
+        if (index >= lines.length) {
+          controller.close();
+          return;
+        }
+        const current = lines[index++];
+        stats.unframed++;
+        controller.enqueue(current.line);
+        const following = lines[index];
+        const delay = following
+          ? Math.max(0, (following.t - current.t) / speed)
+          : 0;
+        timer = setTimeout(next, delay);
+      };
+      next();
+    },
+    cancel() {
+      if (timer) clearTimeout(timer);
+    },
+  });
+
+  const reader: LineReader = readable.getReader();
+  const writer: LineWriter = new WritableStream<string>().getWriter();
+
+  const close = async () => {
+    if (timer) clearTimeout(timer);
+    try {
+      await reader.cancel();
+    } catch {
+      // el lector ya estaba cerrado
+    }
+    writer.releaseLock();
+  };
+
+  return { reader, writer, close, getStats: () => ({ ...stats }) };
+}
@@ -0,0 +1,236 @@
+// src/modules/Monitoring/telemetryParsers.ts
+
+/**
+ * Registro de parsers de telemetría. Cada generación de firmware imprime
+ * las lecturas en su propio formato; el parser declara cómo mapear sus
+ * campos y en qué unidades vienen, y devuelve siempre kPa y °C.
+ */
+
+export type RealtimeRow = {
+  timestamp: string;
+  measuredPressure: number; // kPa
+  temperature: number; // °C
+  cycleIndex?: number;
+  state?: string; // estado de la máquina del equipo, si lo informa (INFLA, MANTIENE…)
+};
+
+export type PressureUnit = "kPa" | "mmHg" | "psi";
+export type TemperatureUnit = "C" | "F";
+
+export interface FieldMapping {
+  pressure: { keys: string[]; unit: PressureUnit };
+  temperature: { keys: string[]; unit: TemperatureUnit };
+  cycle: { keys: string[] };
+}
+
+export interface TelemetryParser {
+  id: string;
+  label: string;
+  fields: FieldMapping;
+  /** Devuelve la lectura en unidades canónicas o null si la línea no aplica */
+  parse: (line: string) => RealtimeRow | null;
+}
+
+const PRESSURE_TO_KPA: Record<PressureUnit, (v: number) => number> = {
+  kPa: (v) => v,
+  mmHg: (v) => v * 0.133322,
+  psi: (v) => v * 6.894757,
+};
+
+const TEMPERATURE_TO_C: Record<TemperatureUnit, (v: number) => number> = {
+  C: (v) => v,
+  F: (v) => ((v - 32) * 5) / 9,
+};
+
+/** Arma la lectura a partir de un diccionario de valores crudos */
+function fromRecord(
+  values: Partial<Record<string, unknown>>,
+  fields: FieldMapping,
+): RealtimeRow | null {
+  // Como la cadena `??` original: null o vacío pasan al siguiente alias
+  const pick = (keys: string[]) =>
+    keys.map((k) => values[k]).find((v) => v != null && v !== "");
+
+  const pressure = Number(pick(fields.pressure.keys));
+  const temp = Number(pick(fields.temperature.keys));
+  const cycle = Number(pick(fields.cycle.keys));
+  const state = values.state ?? values.estado;
+
+  if (!Number.isFinite(pressure) || !Number.isFinite(temp)) return null;
+  return {
+    timestamp: new Date().toISOString(),
+    measuredPressure: PRESSURE_TO_KPA[fields.pressure.unit](pressure),
+    temperature: TEMPERATURE_TO_C[fields.temperature.unit](temp),
+    cycleIndex: Number.isFinite(cycle) ? cycle : undefined,
+    state: typeof state === "string" ? state.trim().toUpperCase() : undefined,
+  };
+}
+
+const JSON_FIELDS: FieldMapping = {
+  pressure: { keys: ["pressure", "measuredPressure", "p", "pr"], unit: "kPa" },
+  temperature: { keys: ["temperature", "temp", "t"], unit: "C" },
+  cycle: { keys: ["cycle", "cycleIndex"] },
+};
+
+/**
+ * Firmware actual, una línea JSON por lectura:
+ * {"pressure": 23.4, "temperature": 32.1, "cycle": 1}
+ */
+export const jsonParser: TelemetryParser = {
+  id: "json",
+  label: "JSON (firmware actual)",
+  fields: JSON_FIELDS,
+  parse(line) {
+    const s = line.trim();
+    if (!s.startsWith("{") || !s.endsWith("}")) return null;
+    try {
+      const obj = JSON.parse(s) as Partial<Record<string, unknown>>;
+      return fromRecord(obj, JSON_FIELDS);
+    } catch {
+      // línea inválida: se descarta
+      return null;
+    }
+  },
+};
+
+const CSV_FIELDS: FieldMapping = {
+  pressure: { keys: ["0"], unit: "kPa" },
+  temperature: { keys: ["1"], unit: "C" },
+  cycle: { keys: ["2"] },
+};
+
+/** Firmware anterior: "23.4,32.1,1" (presión, temperatura, ciclo) */
+export const csvParser: TelemetryParser = {
+  id: "csv",
+  label: "CSV (firmware anterior)",
+  fields: CSV_FIELDS,
+  parse(line) {
+    const cols = line.trim().split(/\s*[,;]\s*/);
+    if (cols.length < 2 || cols.some((c) => c === "" || isNaN(Number(c)))) {
+      return null;
+    }
+    return fromRecord({ ...cols }, CSV_FIELDS);
+  },
+};
+
+const KV_FIELDS: FieldMapping = {
+  pressure: { keys: ["p", "pr", "pressure"], unit: "kPa" },
+  temperature: { keys: ["t", "temp", "temperature"], unit: "C" },
+  cycle: { keys: ["c", "cycle"] },
+};
+
+/** Firmware anterior: "p=23.4 t=32.1 c=1" (separado por espacio, coma o ;) */
+export const keyValueParser: TelemetryParser = {
+  id: "kv",
+  label: "clave=valor (firmware anterior)",
+  fields: KV_FIELDS,
+  parse(line) {
+    const pairs = line.trim().split(/[\s,;]+/);
+    const values: Record<string, string> = {};
+    for (const pair of pairs) {
+      const match = /^([A-Za-z_]+)[=:](.+)$/.exec(pair);
+      if (!match) return null;
+      values[match[1].toLowerCase()] = match[2];
+    }
+    return fromRecord(values, KV_FIELDS);
+  },
+};
+
+const registry: TelemetryParser[] = [jsonParser, csvParser, keyValueParser];
+
+export function registerTelemetryParser(parser: TelemetryParser): void {
+  const idx = registry.findIndex((p) => p.id === parser.id);
+  if (idx >= 0) registry[idx] = parser;
+  else registry.push(parser);
+}
+
+export function getTelemetryParsers(): TelemetryParser[] {
+  return [...registry];
+}
+
+export function getTelemetryParser(id: string): TelemetryParser | undefined {
+  return registry.find((p) => p.id === id);
+}
+
+/** Parser que entiende más líneas de la muestra (null si ninguno) */
+export function detectTelemetryParser(
+  lines: string[],
+): TelemetryParser | null {
+  let best: TelemetryParser | null = null;
+  let bestScore = 0;
+  for (const parser of registry) {
+    const score = lines.filter((l) => parser.parse(l) !== null).length;
+    if (score > bestScore) {
+      best = parser;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+const DETECT_SAMPLE = 5; // líneas que se miran antes de fijar el formato
+const DETECT_MIN_MATCHES = 3;
+
+export interface TelemetryDecoder {
+  parse: (line: string) => RealtimeRow | null;
+  /** Parser en uso: el forzado, el detectado o null si aún no se decidió */
+  active: () => TelemetryParser | null;
+}
+
+/**
+ * Decodificador con estado. Con `parserId` usa ese parser; en modo
+ * automático mira las primeras líneas y fija el que mejor las entiende
+ * (mientras tanto cada línea se interpreta con el mejor candidato).
+ */
+export function createTelemetryDecoder(
+  parserId: string = "auto",
+  onDetect?: (parser: TelemetryParser) => void,
+): TelemetryDecoder {
+  let locked = getTelemetryParser(parserId) ?? null;
+  const sample: string[] = [];
+
+  return {
+    parse(line) {
+      if (locked) return locked.parse(line);
+      if (!line.trim()) return null;
+
+      sample.push(line);
+      const candidate = detectTelemetryParser(sample);
+      if (candidate) {
+        const matches = sample.filter((l) => candidate.parse(l)).length;
+        if (
+          matches >= DETECT_MIN_MATCHES ||
+          (sample.length >= DETECT_SAMPLE && matches > 0)
+        ) {
+          locked = candidate;
+          onDetect?.(candidate);
+        }
+      }
+      if (sample.length >= DETECT_SAMPLE && !locked) sample.shift();
+      return candidate?.parse(line) ?? null;
+    },
+    active: () => locked,
+  };
+}
+
+// Formato forzado por el operador, recordado por dispositivo
+const PREFERENCE_KEY = "monitoring_parser_by_device";
+
+function readPreferences(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(PREFERENCE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function loadParserPreference(deviceKey: string): string {
+  return readPreferences()[deviceKey] ?? "auto";
+}
+
+export function saveParserPreference(deviceKey: string, parserId: string) {
+  const prefs = readPreferences();
+  if (parserId === "auto") delete prefs[deviceKey];
+  else prefs[deviceKey] = parserId;
+  localStorage.setItem(PREFERENCE_KEY, JSON.stringify(prefs));
+}
@@ -0,0 +1,289 @@
+// src/modules/Monitoring/virtualDevice.ts
+import type { SerialPort } from "./serial.interface";
+import { encodeFrame } from "./serialAdapter";
+import { decodeConfigArgs, type DeviceProtocolConfig } from "./deviceConfig";
+
+export type VirtualDeviceState = "MENU" | "INFLA" | "MANTIENE" | "DESINFLA";
+
+export interface VirtualDeviceOptions {
+  intervalMs?: number; // periodo de muestreo (por defecto 10 Hz)
+  faultRate?: number; // 0..1: probabilidad de perder o corromper una trama
+  config?: Partial<DeviceProtocolConfig>;
+}
+
+/** Resultado de un comando: motivo de rechazo (NACK) y datos de respuesta */
+type CommandOutcome = {
+  reason: string | null;
+  data?: Record<string, unknown>;
+};
+
+const DEFAULT_CONFIG: DeviceProtocolConfig = {
+  targetPressureKpa: 30,
+  holdTimeMs: 10_000,
+  releaseTimeMs: 5_000,
+  cycleTarget: 0,
+};
+
+const INFLATE_SECONDS = 3; // tiempo aproximado de inflado hasta el objetivo
+const HOLD_LEAK_PER_SECOND = 0.004; // fuga relativa durante MANTIENE
+const DEFLATE_TAU_SECONDS = 0.8; // constante de tiempo del desinflado
+const AMBIENT_TEMPERATURE = 31.5;
+const MAX_TARGET_PRESSURE_KPA = 40; // límite del firmware: recorta sin avisar
+
+function noise(amplitude: number) {
+  return (Math.random() * 2 - 1) * amplitude;
+}
+
+function round(n: number, decimals = 2) {
+  const f = 10 ** decimals;
+  return Math.round(n * f) / f;
+}
+
+/**
+ * ESP32 simulado que cumple la interfaz SerialPort.
+ * Emite NDJSON enmarcado (ver encodeFrame) con presión y temperatura
+ * mientras ejecuta ciclos inflado → mantenimiento → desinflado, y
+ * responde a los comandos "I" (iniciar), "S" (detener), "CFG"/"CFG?"
+ * (ver deviceConfig) e "ID?" (ver deviceIdentity), confirmándolos con ACK/NACK cuando llegan con id
+ * (ver commandChannel).
+ */
+export class VirtualSerialPort implements SerialPort {
+  readonly label = "Dispositivo simulado";
+  readonly serialNumber = "SIM-0001";
+  readonly firmwareVersion = "2.1.0";
+  config: DeviceProtocolConfig;
+
+  private readonly intervalMs: number;
+  private readonly faultRate: number;
+
+  private _readable: ReadableStream<Uint8Array> | null = null;
+  private _writable: WritableStream<Uint8Array> | null = null;
+  private readController: ReadableStreamDefaultController<Uint8Array> | null =
+    null;
+  private writeController: WritableStreamDefaultController | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+  private commandCarry = "";
+  private lastCommand: { id: number; outcome: CommandOutcome } | null = null;
+
+  private seq = 0;
+  private state: VirtualDeviceState = "MENU";
+  private stateSince = 0;
+  private cycle = 0;
+  private pressure = 0;
+  private temperature = AMBIENT_TEMPERATURE;
+
+  constructor(options: VirtualDeviceOptions = {}) {
+    this.intervalMs = options.intervalMs ?? 100;
+    this.faultRate = options.faultRate ?? 0;
+    this.config = { ...DEFAULT_CONFIG, ...options.config };
+  }
+
+  get readable() {
+    return this._readable;
+  }
+
+  get writable() {
+    return this._writable;
+  }
+
+  async open(): Promise<void> {
+    if (this._readable) throw new Error("El puerto ya está abierto.");
+
+    this._readable = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.readController = controller;
+      },
+      cancel: () => {
+        this.readController = null;
+      },
+    });
+
+    this._writable = new WritableStream<Uint8Array>({
+      start: (controller) => {
+        this.writeController = controller;
+      },
+      write: (chunk) => this.receive(chunk),
+    });
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    // Cerrar el "cable": corta los pipes que openPort tenga enganchados
+    try {
+      this.readController?.error(new Error("Puerto cerrado"));
+    } catch {
+      // ya cancelado
+    }
+    try {
+      this.writeController?.error(new Error("Puerto cerrado"));
+    } catch {
+      // ya cerrado
+    }
+    this.readController = null;
+    this.writeController = null;
+    this._readable = null;
+    this._writable = null;
+    this.commandCarry = "";
+    this.lastCommand = null;
+    this.setState("MENU");
+    this.pressure = 0;
+  }
+
+  /** Emite una línea hacia el navegador (enmarcada, con fallos opcionales) */
+  protected emit(payload: string) {
+    if (!this.readController) return;
+    const seq = this.seq++;
+    if (Math.random() < this.faultRate / 2) return; // trama perdida
+    let line = encodeFrame(seq, payload);
+    if (Math.random() < this.faultRate / 2) {
+      // Byte alterado en el cable
+      const at = 1 + Math.floor(Math.random() * (line.length - 1));
+      line = `${line.slice(0, at)}~${line.slice(at + 1)}`;
+    }
+    this.readController.enqueue(this.encoder.encode(`${line}\n`));
+  }
+
+  /** Ejecuta un comando recibido del navegador */
+  protected handleCommand(command: string, args = ""): CommandOutcome {
+    switch (command.toUpperCase()) {
+      case "I":
+        if (this.state !== "MENU") return { reason: "ciclos ya en ejecución" };
+        this.cycle = 1;
+        this.setState("INFLA");
+        return { reason: null };
+      case "S":
+        // La válvula abre de inmediato y el equipo queda en espera
+        this.cycle = 0;
+        this.pressure = 0;
+        this.setState("MENU");
+        return { reason: null };
+      case "CFG": {
+        if (this.state !== "MENU") {
+          return { reason: "no se puede configurar durante los ciclos" };
+        }
+        const next = decodeConfigArgs(args, this.config);
+        this.config = {
+          ...next,
+          targetPressureKpa: Math.min(
+            next.targetPressureKpa,
+            MAX_TARGET_PRESSURE_KPA,
+          ),
+        };
+        return { reason: null };
+      }
+      case "CFG?":
+        return { reason: null, data: { ...this.config } };
+      case "ID?":
+        return {
+          reason: null,
+          data: {
+            serial: this.serialNumber,
+            fw: this.firmwareVersion,
+            hw: "SIM",
+            commands: ["I", "S", "CFG", "CFG?", "ID?"],
+          },
+        };
+      default:
+        return { reason: "comando desconocido" };
+    }
+  }
+
+  private receive(chunk: Uint8Array) {
+    this.commandCarry += this.decoder.decode(chunk, { stream: true });
+    const lines = this.commandCarry.split(/\r?\n/);
+    this.commandCarry = lines.pop() ?? "";
+    for (const line of lines) {
+      const text = line.trim();
+      if (!text) continue;
+
+      // "!<id> CMD [args]" espera confirmación; "CMD" es el formato antiguo
+      const match = /^!(\d+)\s+(\S+)\s*(.*)$/.exec(text);
+      if (!match) {
+        this.handleCommand(text);
+        continue;
+      }
+      const [, idText, command, args] = match;
+      const id = Number(idText);
+      // Reintento del mismo id: solo se repite la confirmación
+      const outcome =
+        id === this.lastCommand?.id
+          ? this.lastCommand.outcome
+          : this.handleCommand(command, args);
+      this.lastCommand = { id, outcome };
+      const { reason, data } = outcome;
+      this.emit(
+        JSON.stringify({
+          ack: id,
+          command: command.toUpperCase(),
+          result: reason === null ? "ACK" : "NACK",
+          ...(reason === null ? {} : { reason }),
+          ...(data ? { data } : {}),
+        }),
+      );
+    }
+  }
+
+  private setState(state: VirtualDeviceState) {
+    this.state = state;
+    this.stateSince = Date.now();
+  }
+
+  private tick() {
+    if (this.state === "MENU") {
+      this.temperature += (AMBIENT_TEMPERATURE - this.temperature) * 0.01;
+      return;
+    }
+
+    const dt = this.intervalMs / 1000;
+    const elapsed = Date.now() - this.stateSince;
+    const { targetPressureKpa, holdTimeMs, releaseTimeMs, cycleTarget } =
+      this.config;
+
+    switch (this.state) {
+      case "INFLA":
+        this.pressure += (targetPressureKpa / INFLATE_SECONDS) * dt;
+        this.temperature += 0.02;
+        if (this.pressure >= targetPressureKpa) {
+          this.pressure = targetPressureKpa;
+          this.setState("MANTIENE");
+        }
+        break;
+      case "MANTIENE":
+        this.pressure -= this.pressure * HOLD_LEAK_PER_SECOND * dt;
+        if (elapsed >= holdTimeMs) this.setState("DESINFLA");
+        break;
+      case "DESINFLA":
+        this.pressure -= (this.pressure / DEFLATE_TAU_SECONDS) * dt;
+        this.temperature += (AMBIENT_TEMPERATURE - this.temperature) * 0.02;
+        if (elapsed >= releaseTimeMs && this.pressure < 0.5) {
+          if (cycleTarget > 0 && this.cycle >= cycleTarget) {
+            this.pressure = 0;
+            this.setState("MENU");
+            return;
+          }
+          this.cycle++;
+          this.setState("INFLA");
+        }
+        break;
+    }
+
+    this.emit(
+      JSON.stringify({
+        pressure: round(Math.max(0, this.pressure + noise(0.15))),
+        temperature: round(this.temperature + noise(0.05)),
+        cycle: this.cycle,
+        state: this.state,
+      }),
+    );
+  }
+}
+
+export function isVirtualPort(port: SerialPort): port is VirtualSerialPort {
+  return port instanceof VirtualSerialPort;
+}
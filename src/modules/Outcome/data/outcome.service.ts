@@ -0,0 +1,24 @@
+// src/modules/Outcome/data/outcome.service.ts
+import axios from "@/lib/axios";
+import type {
+  CreateOutcomeDto,
+  OutcomeTreatment,
+  TreatmentOutcome,
+} from "../outcome.interface";
+
+export const outcomeService = {
+  /** Adjunta (o reemplaza) el resultado al registro del tratamiento */
+  save: async (data: CreateOutcomeDto): Promise<TreatmentOutcome> => {
+    const { treatmentId, ...body } = data;
+    const res = await axios.put(`/doctor/treatments/${treatmentId}/outcome`, body);
+    return res.data;
+  },
+
+  /** Tratamientos del paciente con su resultado (el historial lo incluye) */
+  findByPatient: async (patientId: string): Promise<OutcomeTreatment[]> => {
+    const res = await axios.get("/doctor/treatments/history", {
+      params: { patientId },
+    });
+    return (res.data as OutcomeTreatment[]).filter((t) => t.patientId === patientId);
+  },
+};
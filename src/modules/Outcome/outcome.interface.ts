@@ -0,0 +1,33 @@
+// src/modules/Outcome/outcome.interface.ts
+
+// Resultado reportado por el paciente al terminar un tratamiento
+export type ComfortLevel = 1 | 2 | 3 | 4 | 5;
+
+export type SkinObservation =
+  | "sin_cambios"
+  | "eritema"
+  | "marcas_banda"
+  | "edema"
+  | "palidez"
+  | "dolor_al_tacto"
+  | "lesion";
+
+export interface TreatmentOutcome {
+  treatmentId: string;
+  painScore: number; // EVA 0-10
+  comfort: ComfortLevel;
+  skinObservations: SkinObservation[];
+  notes?: string | null;
+  recordedAt: string;
+}
+
+export type CreateOutcomeDto = Omit<TreatmentOutcome, "recordedAt">;
+
+// Tratamiento del historial con su resultado, para la tendencia del paciente
+export interface OutcomeTreatment {
+  id: string;
+  patientId: string;
+  status: string;
+  startedAt: string;
+  outcome?: TreatmentOutcome | null;
+}
@@ -0,0 +1,41 @@
+// src/modules/Outcome/outcome.meta.ts
+import type { ComfortLevel, OutcomeTreatment, SkinObservation } from "./outcome.interface";
+
+export const COMFORT_LABEL: Record<ComfortLevel, string> = {
+  1: "Muy incomodo",
+  2: "Incomodo",
+  3: "Neutral",
+  4: "Comodo",
+  5: "Muy comodo",
+};
+
+export const SKIN_OBSERVATION_LABEL: Record<SkinObservation, string> = {
+  sin_cambios: "Sin cambios",
+  eritema: "Eritema",
+  marcas_banda: "Marcas de la banda",
+  edema: "Edema",
+  palidez: "Palidez",
+  dolor_al_tacto: "Dolor al tacto",
+  lesion: "Lesion cutanea",
+};
+
+// Hallazgos que conviene revisar antes de la siguiente sesion
+export const SKIN_CONCERNS: SkinObservation[] = ["edema", "palidez", "lesion"];
+
+/** Puntos para la grafica de tendencia, del mas antiguo al mas reciente */
+export function outcomeTrend(treatments: OutcomeTreatment[]) {
+  return [...treatments]
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+    .flatMap(({ startedAt, outcome }) =>
+      outcome
+        ? [
+            {
+              date: new Date(startedAt).toLocaleDateString(),
+              pain: outcome.painScore,
+              comfort: outcome.comfort,
+              concern: outcome.skinObservations.some((o) => SKIN_CONCERNS.includes(o)),
+            },
+          ]
+        : [],
+    );
+}
@@ -0,0 +1,198 @@
+// src/modules/Outcome/outcomeDialog.tsx
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { outcomeService } from "./data/outcome.service";
+import { CircumferenceInputs } from "@/modules/LimbMeasurement/circumferenceInputs";
+import { isLimbZone, parseCircumferences } from "@/modules/LimbMeasurement/limbMeasurement.volume";
+import { limbMeasurementService } from "@/modules/LimbMeasurement/data/limbMeasurement.service";
+import { COMFORT_LABEL, SKIN_OBSERVATION_LABEL } from "./outcome.meta";
+import type { ComfortLevel, SkinObservation, TreatmentOutcome } from "./outcome.interface";
+
+export interface FinishedTreatment {
+  id: string;
+  patientName: string;
+  patientId?: string | null;
+  treatmentZone?: string | null;
+  outcome?: TreatmentOutcome | null; // resultado ya registrado, para corregirlo
+}
+
+/**
+ * Formulario post-tratamiento: EVA, confort, piel y notas del paciente. Sin
+ * resultado previo nada viene marcado: cada respuesta debe elegirse.
+ */
+export function OutcomeDialog({
+  treatment,
+  onClose,
+  onSaved,
+}: {
+  treatment: FinishedTreatment;
+  onClose: () => void;
+  onSaved?: (outcome: TreatmentOutcome) => void;
+}) {
+  const initial = treatment.outcome ?? null;
+  const [painScore, setPainScore] = useState<number | null>(initial?.painScore ?? null);
+  const [comfort, setComfort] = useState<ComfortLevel | null>(initial?.comfort ?? null);
+  const [skin, setSkin] = useState<SkinObservation[]>(initial?.skinObservations ?? []);
+  const [notes, setNotes] = useState(initial?.notes ?? "");
+  const [saving, setSaving] = useState(false);
+  const [measurement, setMeasurement] = useState<Record<string, string>>({});
+
+  const zone = isLimbZone(treatment.treatmentZone) ? treatment.treatmentZone : null;
+  const circumferences = parseCircumferences(measurement);
+  // Si se empezo a cargar la medicion, debe estar completa
+  const measurementIncomplete =
+    Object.values(measurement).some((v) => v.trim() !== "") && !circumferences;
+
+  // "Sin cambios" excluye al resto de hallazgos
+  const toggleSkin = (value: SkinObservation) =>
+    setSkin((current) => {
+      if (current.includes(value)) return current.filter((v) => v !== value);
+      if (value === "sin_cambios") return [value];
+      return [...current.filter((v) => v !== "sin_cambios"), value];
+    });
+
+  const submit = async () => {
+    if (painScore == null || comfort == null) return;
+    setSaving(true);
+    try {
+      const saved = await outcomeService.save({
+        treatmentId: treatment.id,
+        painScore,
+        comfort,
+        skinObservations: skin,
+        notes: notes.trim() || null,
+      });
+      if (circumferences && zone && treatment.patientId) {
+        await limbMeasurementService.create({
+          patientId: treatment.patientId,
+          treatmentZone: zone,
+          treatmentId: treatment.id,
+          timing: "post",
+          circumferencesCm: circumferences,
+        });
+      }
+      toast.success("Resultado registrado");
+      onSaved?.(saved);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : "No se pudo guardar el resultado");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Resultado del tratamiento</DialogTitle>
+          <DialogDescription>{treatment.patientName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className="font-medium">Dolor (EVA)</span>
+              <span className="font-mono text-cyan-500">{painScore ?? "-"} / 10</span>
+            </div>
+            <div className="grid grid-cols-11 gap-1">
+              {Array.from({ length: 11 }, (_, score) => (
+                <button
+                  key={score}
+                  type="button"
+                  onClick={() => setPainScore(score)}
+                  className={
+                    "rounded border py-1 text-xs " +
+                    (painScore === score ? "border-cyan-400 bg-cyan-500/10" : "border-border")
+                  }
+                >
+                  {score}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Sin dolor</span>
+              <span>Peor dolor imaginable</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="font-medium">Confort percibido</span>
+            <div className="grid grid-cols-5 gap-1">
+              {([1, 2, 3, 4, 5] as ComfortLevel[]).map((level) => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => setComfort(level)}
+                  className={
+                    "rounded border px-1 py-2 text-xs " +
+                    (comfort === level ? "border-cyan-400 bg-cyan-500/10" : "border-border")
+                  }
+                >
+                  {COMFORT_LABEL[level]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="font-medium">Observaciones de la piel</span>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SKIN_OBSERVATION_LABEL) as SkinObservation[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => toggleSkin(value)}
+                  className={
+                    "rounded-full border px-3 py-1 text-xs " +
+                    (skin.includes(value) ? "border-cyan-400 bg-cyan-500/10" : "border-border")
+                  }
+                >
+                  {SKIN_OBSERVATION_LABEL[value]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {zone && treatment.patientId && !initial && (
+            <div className="space-y-2">
+              <span className="font-medium">Perimetros despues del tratamiento (opcional)</span>
+              <CircumferenceInputs values={measurement} onChange={setMeasurement} />
+            </div>
+          )}
+
+          <Input placeholder="Notas (opcional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {initial ? "Cancelar" : "Omitir"}
+          </Button>
+          <Button
+            disabled={
+              saving ||
+              painScore == null ||
+              comfort == null ||
+              skin.length === 0 ||
+              measurementIncomplete
+            }
+            onClick={() => void submit()}
+          >
+            Guardar resultado
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+// src/modules/Outcome/outcomeTrend.tsx
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { outcomeService } from "./data/outcome.service";
+import { outcomeTrend } from "./outcome.meta";
+import type { OutcomeTreatment } from "./outcome.interface";
+
+/** Evolucion de EVA y confort en la ficha del paciente */
+export function OutcomeTrendCard({ patientId }: { patientId: string }) {
+  const [treatments, setTreatments] = useState<OutcomeTreatment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    outcomeService
+      .findByPatient(patientId)
+      .then((rows) => {
+        if (cancelled) return;
+        setTreatments(rows);
+        setError(null);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (!cancelled) setError(e instanceof Error ? e.message : "No se pudo cargar el historial");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  const points = useMemo(() => outcomeTrend(treatments), [treatments]);
+  const concerns = points.filter((p) => p.concern).length;
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>Resultados reportados</CardTitle></CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {!error && points.length === 0 && (
+          <p className="text-sm text-muted-foreground">Sin resultados registrados.</p>
+        )}
+        {points.length > 0 && (
+          <>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={points}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                  <XAxis dataKey="date" />
+                  <YAxis yAxisId="pain" domain={[0, 10]} />
+                  <YAxis yAxisId="comfort" orientation="right" domain={[1, 5]} />
+                  <Tooltip />
+                  <Legend />
+                  <Line yAxisId="pain" type="monotone" dataKey="pain" name="Dolor (EVA)" stroke="#ef4444" />
+                  <Line yAxisId="comfort" type="monotone" dataKey="comfort" name="Confort (1-5)" stroke="#00d4ff" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            {concerns > 0 && (
+              <p className="text-xs text-amber-500">
+                {concerns} sesion(es) con edema, palidez o lesion cutanea registrada.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+// src/modules/Schedule/data/schedule.service.ts
+import axios from "@/lib/axios";
+import type {
+  CreateScheduleSlotDto,
+  ScheduleSlot,
+  ScheduleSlotStatus,
+} from "../schedule.interface";
+
+const BASE_URL = "/doctor/schedule";
+
+export const scheduleService = {
+  /** Turnos entre dos fechas (ISO, fin exclusivo) */
+  findRange: async (from: string, to: string): Promise<ScheduleSlot[]> => {
+    const res = await axios.get(BASE_URL, { params: { from, to } });
+    return res.data;
+  },
+
+  findOne: async (id: string): Promise<ScheduleSlot> => {
+    const res = await axios.get(`${BASE_URL}/${id}`);
+    return res.data;
+  },
+
+  create: async (data: CreateScheduleSlotDto): Promise<ScheduleSlot> => {
+    const res = await axios.post(BASE_URL, data);
+    return res.data;
+  },
+
+  /** Cambia la hora del turno (arrastrar en el calendario) */
+  reschedule: async (id: string, scheduledAt: string): Promise<ScheduleSlot> => {
+    const res = await axios.patch(`${BASE_URL}/${id}`, { scheduledAt });
+    return res.data;
+  },
+
+  updateStatus: async (id: string, status: ScheduleSlotStatus): Promise<ScheduleSlot> => {
+    const res = await axios.patch(`${BASE_URL}/${id}/status`, { status });
+    return res.data;
+  },
+};
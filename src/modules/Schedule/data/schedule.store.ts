@@ -0,0 +1,85 @@
+// src/modules/Schedule/data/schedule.store.ts
+import { create } from "zustand";
+import { toast } from "sonner";
+import { scheduleService } from "./schedule.service";
+import type { CreateScheduleSlotDto, ScheduleSlot } from "../schedule.interface";
+
+interface ScheduleState {
+  slots: ScheduleSlot[];
+  range: { from: string; to: string } | null;
+  isLoading: boolean;
+  error: string | null;
+
+  fetchRange: (from: string, to: string) => Promise<void>;
+  create: (payload: CreateScheduleSlotDto) => Promise<boolean>;
+  /** Actualiza en el momento y revierte si el backend lo rechaza */
+  reschedule: (id: string, scheduledAt: string) => Promise<void>;
+  cancel: (id: string) => Promise<void>;
+}
+
+const replaceSlot = (slots: ScheduleSlot[], slot: ScheduleSlot) =>
+  slots.map((s) => (s.id === slot.id ? slot : s));
+
+export const scheduleStore = create<ScheduleState>((set, get) => ({
+  slots: [],
+  range: null,
+  isLoading: false,
+  error: null,
+
+  fetchRange: async (from, to) => {
+    set({ range: { from, to }, isLoading: true, error: null });
+    try {
+      const slots = await scheduleService.findRange(from, to);
+      const range = get().range;
+      if (range?.from !== from || range?.to !== to) return; // se cambio de semana
+      set({ slots, isLoading: false });
+    } catch (e) {
+      console.error(e);
+      set({
+        isLoading: false,
+        error: e instanceof Error ? e.message : "No se pudo cargar la agenda",
+      });
+    }
+  },
+
+  create: async (payload) => {
+    try {
+      await scheduleService.create(payload);
+      toast.success("Sesion agendada");
+      const range = get().range;
+      if (range) await get().fetchRange(range.from, range.to);
+      return true;
+    } catch (e) {
+      console.error(e);
+      toast.error("No se pudo agendar la sesion");
+      return false;
+    }
+  },
+
+  reschedule: async (id, scheduledAt) => {
+    const previous = get().slots.find((s) => s.id === id);
+    if (!previous || previous.scheduledAt === scheduledAt) return;
+    set({ slots: replaceSlot(get().slots, { ...previous, scheduledAt }) });
+    try {
+      const updated = await scheduleService.reschedule(id, scheduledAt);
+      set({ slots: replaceSlot(get().slots, { ...previous, ...updated }) });
+      toast.success("Sesion reprogramada");
+    } catch (e) {
+      console.error(e);
+      set({ slots: replaceSlot(get().slots, previous) });
+      toast.error("No se pudo reprogramar");
+    }
+  },
+
+  cancel: async (id) => {
+    try {
+      const updated = await scheduleService.updateStatus(id, "CANCELLED");
+      set({
+        slots: get().slots.map((s) => (s.id === id ? { ...s, ...updated, status: "CANCELLED" } : s)),
+      });
+    } catch (e) {
+      console.error(e);
+      toast.error("No se pudo cancelar la sesion");
+    }
+  },
+}));
@@ -0,0 +1,79 @@
+// src/modules/Schedule/schedule.calendar.ts
+import type { ScheduleSlot } from "./schedule.interface";
+
+/**
+ * Utilidades de la agenda: estado efectivo de cada turno (un turno sin
+ * tratamiento pasada su hora se considera perdido), dias de la semana y
+ * calculo de la nueva hora al arrastrar un turno.
+ */
+
+export type SlotState = "scheduled" | "in_progress" | "completed" | "missed" | "cancelled";
+
+// Margen tras el fin del turno antes de darlo por perdido
+export const MISSED_GRACE_MINUTES = 60;
+
+export const SLOT_STATE_META: Record<SlotState, { label: string; className: string }> = {
+  scheduled: { label: "Agendado", className: "border-cyan-500/50 bg-cyan-500/10" },
+  in_progress: { label: "En curso", className: "border-emerald-400 bg-emerald-500/20 animate-pulse" },
+  completed: { label: "Completado", className: "border-emerald-500/50 bg-emerald-500/10" },
+  missed: { label: "Perdido", className: "border-red-500/50 bg-red-500/10" },
+  cancelled: { label: "Cancelado", className: "border-border bg-muted/30 line-through opacity-60" },
+};
+
+export function slotState(slot: ScheduleSlot, now = Date.now()): SlotState {
+  if (slot.status === "CANCELLED") return "cancelled";
+  if (slot.status === "COMPLETED" || slot.treatmentStatus === "completed") return "completed";
+  if (slot.treatmentStatus === "running") return "in_progress";
+  const end = new Date(slot.scheduledAt).getTime() + slot.durationMinutes * 60_000;
+  return now > end + MISSED_GRACE_MINUTES * 60_000 ? "missed" : "scheduled";
+}
+
+/** Solo se reprograma lo que aun no se entrego */
+export function canReschedule(slot: ScheduleSlot, now = Date.now()) {
+  const state = slotState(slot, now);
+  return state === "scheduled" || state === "missed";
+}
+
+export function dayKey(date: Date) {
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+export function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** Lunes a domingo de la semana que contiene la fecha */
+export function weekDays(anchor: Date) {
+  const monday = addDays(anchor, -((anchor.getDay() + 6) % 7));
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+}
+
+export function slotsByDay(slots: ScheduleSlot[]) {
+  const byDay = new Map<string, ScheduleSlot[]>();
+  for (const slot of [...slots].sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))) {
+    const key = dayKey(new Date(slot.scheduledAt));
+    byDay.set(key, [...(byDay.get(key) ?? []), slot]);
+  }
+  return byDay;
+}
+
+/**
+ * Nueva hora de un turno soltado en otro dia (conserva la hora) o en otra
+ * franja horaria (conserva los minutos).
+ */
+export function movedScheduledAt(scheduledAt: string, day: Date, hour?: number) {
+  const current = new Date(scheduledAt);
+  const next = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  next.setHours(hour ?? current.getHours(), current.getMinutes(), 0, 0);
+  return next.toISOString();
+}
+
+export function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
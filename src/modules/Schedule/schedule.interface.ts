@@ -0,0 +1,36 @@
+// src/modules/Schedule/schedule.interface.ts
+
+// Sesion agendada: paciente, hora y el protocolo con que se va a iniciar
+export type ScheduleIntensity = "low" | "medium" | "high" | "custom";
+export type ScheduleZone = "pantorrilla_izquierda" | "pantorrilla_derecha";
+export type ScheduleMobility = "independiente" | "movilidad_reducida" | "inmovil";
+export type ScheduleSlotStatus = "SCHEDULED" | "COMPLETED" | "CANCELLED";
+
+export interface ScheduleCustomConfig {
+  targetPressureKpa: number;
+  holdTimeSeconds: number;
+  releaseTimeSeconds: number;
+  cycleTarget: number;
+}
+
+export interface ScheduleSlot {
+  id: string;
+  patientId: string;
+  patientName?: string | null;
+  scheduledAt: string; // ISO
+  durationMinutes: number;
+  treatmentZone: ScheduleZone;
+  mobilityLevel: ScheduleMobility;
+  intensity: ScheduleIntensity;
+  customConfig?: ScheduleCustomConfig | null; // solo con intensity "custom"
+  notes?: string | null;
+  status: ScheduleSlotStatus;
+  // Tratamiento iniciado desde este turno, si lo hay
+  treatmentId?: string | null;
+  treatmentStatus?: string | null; // running | completed | aborted
+}
+
+export type CreateScheduleSlotDto = Omit<
+  ScheduleSlot,
+  "id" | "patientName" | "status" | "treatmentId" | "treatmentStatus"
+>;
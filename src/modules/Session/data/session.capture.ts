@@ -0,0 +1,207 @@
+// src/modules/Session/data/session.capture.ts
+import { sessionService } from "./session.service";
+import {
+  removeCaptureChunk,
+  storeCaptureChunk,
+  storedCaptureChunks,
+} from "./session.outbox";
+import type {
+  CaptureSample,
+  SessionCaptureChunk,
+} from "../session.interface";
+
+/**
+ * Captura completa de una sesión: guarda todas las lecturas a la tasa del
+ * equipo (no el muestreo de 1 Hz de los registros) y las sube en bloques
+ * NDJSON comprimidos con gzip. Cada bloque queda en IndexedDB hasta que el
+ * backend lo confirma; lo que no se pudo subir se retoma al volver a abrir
+ * el monitor (resumeCaptureUploads).
+ */
+
+const CHUNK_MS = 30_000; // duración de cada bloque
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 30_000;
+const MAX_ATTEMPTS = 6; // luego el bloque espera en IndexedDB
+
+// Sesiones con un grabador activo: sus bloques los sube el propio grabador
+const activeRecorders = new Set<string>();
+
+export interface CaptureStats {
+  samples: number;
+  uploadedChunks: number;
+  pendingChunks: number;
+  lastError: string | null;
+}
+
+export interface CaptureRecorder {
+  push: (sample: CaptureSample) => void;
+  /** Cierra el bloque en curso y lo encola para subir */
+  flush: () => void;
+  /**
+   * Deja de grabar y de reintentar: el bloque en curso se guarda en
+   * IndexedDB y lo pendiente se sube en la próxima reanudación.
+   */
+  stop: () => Promise<void>;
+}
+
+export async function compressSamples(samples: CaptureSample[]): Promise<Blob> {
+  const ndjson = samples.map((s) => JSON.stringify(s)).join("\n");
+  const stream = new Blob([ndjson])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+  return new Response(stream).blob();
+}
+
+export async function decompressSamples(blob: Blob): Promise<CaptureSample[]> {
+  const stream = blob.stream().pipeThrough(new DecompressionStream("gzip"));
+  const text = await new Response(stream).text();
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as CaptureSample);
+}
+
+/** Sube los bloques guardados de sesiones sin grabador activo (tras recargar) */
+export async function resumeCaptureUploads(): Promise<number> {
+  const stored = await storedCaptureChunks();
+  let uploaded = 0;
+  for (const entry of stored) {
+    if (activeRecorders.has(entry.sessionId)) continue;
+    // Si uno falla, el resto seguramente también: se reintenta la próxima vez
+    await sessionService.uploadCaptureChunk(entry.sessionId, entry.chunk, entry.body);
+    await removeCaptureChunk(entry.sessionId, entry.index);
+    uploaded++;
+  }
+  return uploaded;
+}
+
+/** Descarga y concatena todos los bloques de la captura de una sesión */
+export async function loadSessionCapture(
+  sessionId: string,
+): Promise<CaptureSample[]> {
+  const chunks = await sessionService.findCaptureChunks(sessionId);
+  const ordered = [...chunks].sort((a, b) => a.index - b.index);
+  const parts: CaptureSample[][] = [];
+  for (const chunk of ordered) {
+    const blob = await sessionService.downloadCaptureChunk(
+      sessionId,
+      chunk.index,
+    );
+    parts.push(await decompressSamples(blob));
+  }
+  return parts.flat();
+}
+
+export function isCaptureSupported(): boolean {
+  return typeof CompressionStream !== "undefined";
+}
+
+export function createCaptureRecorder(
+  sessionId: string,
+  onChange?: (stats: CaptureStats) => void,
+): CaptureRecorder {
+  let buffer: CaptureSample[] = [];
+  let nextIndex = 0;
+  let draining = false;
+  let stopped = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let wake: (() => void) | null = null;
+  const queue: Array<{
+    chunk: SessionCaptureChunk;
+    body: Promise<Blob>;
+    stored: Promise<void>;
+  }> = [];
+  activeRecorders.add(sessionId);
+  const current: CaptureStats = {
+    samples: 0,
+    uploadedChunks: 0,
+    pendingChunks: 0,
+    lastError: null,
+  };
+
+  const notify = () => onChange?.({ ...current });
+
+  // Espera cancelable: stop() la corta
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      wake = resolve;
+      retryTimer = setTimeout(resolve, ms);
+    });
+
+  const drain = async () => {
+    if (draining || stopped) return;
+    draining = true;
+    let failures = 0;
+    while (queue.length && !stopped) {
+      const { chunk, body, stored } = queue[0];
+      try {
+        await sessionService.uploadCaptureChunk(sessionId, chunk, await body);
+        queue.shift();
+        failures = 0;
+        current.uploadedChunks++;
+        current.pendingChunks = queue.length;
+        current.lastError = null;
+        notify();
+        // Se borra después de guardarlo, para no dejar una copia huérfana
+        stored
+          .then(() => removeCaptureChunk(sessionId, chunk.index))
+          .catch(console.error);
+      } catch (e: unknown) {
+        failures++;
+        if (failures >= MAX_ATTEMPTS) {
+          current.lastError =
+            "No se pudo subir la captura; queda guardada y se reintentará más tarde.";
+          notify();
+          break;
+        }
+        current.lastError =
+          e instanceof Error ? e.message : "Error subiendo la captura.";
+        notify();
+        await sleep(Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** failures));
+      }
+    }
+    draining = false;
+  };
+
+  const seal = () => {
+    if (buffer.length === 0) return;
+    const samples = buffer;
+    buffer = [];
+    const chunk = {
+      index: nextIndex++,
+      startedAt: new Date(samples[0].t).toISOString(),
+      endedAt: new Date(samples[samples.length - 1].t).toISOString(),
+      sampleCount: samples.length,
+    };
+    const body = compressSamples(samples);
+    const stored = body
+      .then((blob) =>
+        storeCaptureChunk({ sessionId, index: chunk.index, chunk, body: blob }),
+      )
+      .catch(console.error);
+    queue.push({ chunk, body, stored });
+    current.pendingChunks = queue.length;
+    notify();
+    void drain();
+  };
+
+  return {
+    push(sample) {
+      if (stopped) return;
+      buffer.push(sample);
+      current.samples++;
+      if (sample.t - buffer[0].t >= CHUNK_MS) seal();
+      else notify();
+    },
+    flush: seal,
+    async stop() {
+      if (stopped) return;
+      stopped = true;
+      seal();
+      if (retryTimer) clearTimeout(retryTimer);
+      wake?.();
+      await Promise.all(queue.map((entry) => entry.stored));
+      activeRecorders.delete(sessionId);
+    },
+  };
+}
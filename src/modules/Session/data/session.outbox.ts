@@ -0,0 +1,340 @@
+// src/modules/Session/data/session.outbox.ts
+import { create } from "zustand";
+import { isAxiosError } from "axios";
+import { sessionService } from "./session.service";
+import type {
+  CreateSessionDataDto,
+  SessionCaptureChunk,
+} from "../session.interface";
+
+/**
+ * Cola persistente (IndexedDB) de lecturas pendientes de subir.
+ * Cada lectura se guarda antes de intentar enviarla; se suben por lotes
+ * con reintentos y backoff exponencial, y la cola sobrevive a recargas.
+ */
+
+const DB_NAME = "vasoflow-outbox";
+const DB_VERSION = 2;
+const READINGS = "readings";
+const COUNTERS = "counters";
+const CAPTURES = "captures"; // bloques de captura completa sin subir
+
+const BATCH_SIZE = 50;
+const FLUSH_DELAY_MS = 500; // agrupa lecturas cercanas en un mismo lote
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60_000;
+
+type OutboxEntry = {
+  id?: number;
+  sessionId: string;
+  data: CreateSessionDataDto;
+  queuedAt: number;
+};
+
+export interface OutboxCounters {
+  pending: number;
+  synced: number;
+  rejected: number; // lecturas de lotes que el backend rechazó (4xx), descartadas
+}
+
+const EMPTY_COUNTERS: OutboxCounters = { pending: 0, synced: 0, rejected: 0 };
+
+// --- IndexedDB ---------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB no está disponible en este navegador."));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        const db = req.result;
+        if (event.oldVersion < 1) {
+          const readings = db.createObjectStore(READINGS, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          readings.createIndex("sessionId", "sessionId");
+          db.createObjectStore(COUNTERS, { keyPath: "sessionId" });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(CAPTURES, { keyPath: ["sessionId", "index"] });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// --- Bloques de captura -------------------------------------------------
+
+export type StoredCaptureChunk = {
+  sessionId: string;
+  index: number;
+  chunk: Omit<SessionCaptureChunk, "sizeBytes">;
+  body: Blob;
+};
+
+/** Guarda un bloque comprimido hasta confirmar su subida */
+export async function storeCaptureChunk(entry: StoredCaptureChunk): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(CAPTURES, "readwrite");
+  tx.objectStore(CAPTURES).put(entry);
+  await done(tx);
+}
+
+export async function removeCaptureChunk(
+  sessionId: string,
+  index: number,
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(CAPTURES, "readwrite");
+  tx.objectStore(CAPTURES).delete([sessionId, index]);
+  await done(tx);
+}
+
+export async function storedCaptureChunks(): Promise<StoredCaptureChunk[]> {
+  const db = await openDb();
+  const tx = db.transaction(CAPTURES, "readonly");
+  return promisify(tx.objectStore(CAPTURES).getAll()) as Promise<
+    StoredCaptureChunk[]
+  >;
+}
+
+/** Lote más antiguo: lecturas de la sesión de la primera entrada en cola */
+async function nextBatch(): Promise<OutboxEntry[]> {
+  const db = await openDb();
+  const tx = db.transaction(READINGS, "readonly");
+  const store = tx.objectStore(READINGS);
+  const cursor = await promisify(store.openCursor());
+  if (!cursor) return [];
+  const first = cursor.value as OutboxEntry;
+  return promisify(
+    store
+      .index("sessionId")
+      .getAll(IDBKeyRange.only(first.sessionId), BATCH_SIZE),
+  ) as Promise<OutboxEntry[]>;
+}
+
+/** Borra un lote y acumula su resultado en los contadores persistidos */
+async function settleBatch(
+  sessionId: string,
+  ids: number[],
+  field: "synced" | "rejected",
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([READINGS, COUNTERS], "readwrite");
+  const readings = tx.objectStore(READINGS);
+  ids.forEach((id) => readings.delete(id));
+  const counters = tx.objectStore(COUNTERS);
+  const current = (await promisify(counters.get(sessionId))) as
+    | { sessionId: string; synced: number; rejected: number }
+    | undefined;
+  counters.put({
+    sessionId,
+    synced: current?.synced ?? 0,
+    rejected: current?.rejected ?? 0,
+    [field]: (current?.[field] ?? 0) + ids.length,
+  });
+  await done(tx);
+}
+
+async function readCounters(): Promise<Record<string, OutboxCounters>> {
+  const db = await openDb();
+  const tx = db.transaction([READINGS, COUNTERS], "readonly");
+  const result: Record<string, OutboxCounters> = {};
+
+  const persisted = (await promisify(tx.objectStore(COUNTERS).getAll())) as {
+    sessionId: string;
+    synced: number;
+    rejected: number;
+  }[];
+  persisted.forEach(({ sessionId, synced, rejected }) => {
+    result[sessionId] = { pending: 0, synced, rejected };
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const req = tx.objectStore(READINGS).index("sessionId").openKeyCursor();
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve();
+      const sessionId = String(cursor.key);
+      result[sessionId] ??= { ...EMPTY_COUNTERS };
+      result[sessionId].pending++;
+      cursor.continue();
+    };
+  });
+  return result;
+}
+
+// Solo se descarta un lote cuando el servidor rechaza su contenido.
+// 401/403/404 y el resto se reintentan: sesión vencida o endpoint aún no
+// desplegado no son motivo para perder lecturas.
+const PERMANENT_STATUSES = [400, 409, 413, 422];
+
+function isPermanentFailure(e: unknown): boolean {
+  if (!isAxiosError(e) || !e.response) return false;
+  return PERMANENT_STATUSES.includes(e.response.status);
+}
+
+function isAuthFailure(e: unknown): boolean {
+  if (!isAxiosError(e) || !e.response) return false;
+  return e.response.status === 401 || e.response.status === 403;
+}
+
+// --- Store -------------------------------------------------------------
+
+interface SessionOutboxState {
+  counters: Record<string, OutboxCounters>;
+  isFlushing: boolean;
+  lastError: string | null;
+  retryAt: number | null; // epoch ms del próximo reintento, si hay backoff
+
+  /** Guarda la lectura en la cola y programa la subida */
+  enqueue: (sessionId: string, data: CreateSessionDataDto) => Promise<void>;
+  /** Recupera contadores y retoma la subida (p. ej. tras recargar) */
+  resume: () => Promise<void>;
+  flush: () => Promise<void>;
+}
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let failures = 0;
+
+export const sessionOutboxStore = create<SessionOutboxState>((set, get) => {
+  const schedule = (delayMs: number) => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      void get().flush();
+    }, delayMs);
+  };
+
+  const bump = (sessionId: string, patch: Partial<OutboxCounters>) => {
+    const current = get().counters[sessionId] ?? EMPTY_COUNTERS;
+    const next = { ...current };
+    (Object.keys(patch) as (keyof OutboxCounters)[]).forEach((key) => {
+      next[key] = Math.max(0, next[key] + (patch[key] ?? 0));
+    });
+    set({ counters: { ...get().counters, [sessionId]: next } });
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => schedule(0));
+  }
+
+  return {
+    counters: {},
+    isFlushing: false,
+    lastError: null,
+    retryAt: null,
+
+    async enqueue(sessionId, data) {
+      try {
+        const db = await openDb();
+        const tx = db.transaction(READINGS, "readwrite");
+        const entry: OutboxEntry = { sessionId, data, queuedAt: Date.now() };
+        tx.objectStore(READINGS).add(entry);
+        await done(tx);
+        bump(sessionId, { pending: 1 });
+        // En backoff respetamos la espera; si no, agrupamos y subimos
+        if (!get().retryAt && !flushTimer) schedule(FLUSH_DELAY_MS);
+      } catch (e) {
+        // Sin almacenamiento local: al menos intentamos el envío directo
+        console.error(e);
+        try {
+          await sessionService.addData(sessionId, data);
+          bump(sessionId, { synced: 1 });
+        } catch {
+          set({ lastError: "No se pudo guardar ni enviar una lectura." });
+        }
+      }
+    },
+
+    async resume() {
+      try {
+        set({ counters: await readCounters() });
+      } catch (e) {
+        console.error(e);
+        return;
+      }
+      schedule(0);
+    },
+
+    async flush() {
+      if (get().isFlushing) {
+        schedule(FLUSH_DELAY_MS);
+        return;
+      }
+      set({ isFlushing: true });
+      try {
+        for (;;) {
+          const batch = await nextBatch();
+          if (batch.length === 0) break;
+          const { sessionId } = batch[0];
+          const ids = batch.map((entry) => entry.id as number);
+          try {
+            await sessionService.addDataBatch(
+              sessionId,
+              batch.map((entry) => entry.data),
+            );
+          } catch (e) {
+            if (isPermanentFailure(e)) {
+              await settleBatch(sessionId, ids, "rejected");
+              bump(sessionId, { pending: -ids.length, rejected: ids.length });
+              set({ lastError: "El servidor rechazó un lote de lecturas." });
+              continue;
+            }
+            failures++;
+            const delay = Math.min(
+              BACKOFF_MAX_MS,
+              BACKOFF_BASE_MS * 2 ** (failures - 1),
+            );
+            set({
+              lastError: isAuthFailure(e)
+                ? "Sesión vencida: las lecturas quedan en cola hasta volver a ingresar."
+                : e instanceof Error
+                  ? e.message
+                  : "Error subiendo lecturas.",
+              retryAt: Date.now() + delay,
+            });
+            schedule(delay);
+            return;
+          }
+          await settleBatch(sessionId, ids, "synced");
+          bump(sessionId, { pending: -ids.length, synced: ids.length });
+          failures = 0;
+          set({ lastError: null, retryAt: null });
+        }
+      } catch (e) {
+        console.error(e);
+      } finally {
+        set({ isFlushing: false });
+      }
+    },
+  };
+});
@@ -5,6 +5,9 @@ import type {
   CreateSessionDto,
   CreateSessionDataDto,
   SessionData,
+  SessionCaptureChunk,
+  SessionInterruption,
+  SessionDevice,
 } from "../session.interface";
 
 const BASE_URL = "/sessions";
@@ -25,6 +28,72 @@ export const sessionService = {
     return res.data;
   },
 
+  /** Agrega varios registros en una sola petición (cola offline) */
+  addDataBatch: async (
+    sessionId: string,
+    data: CreateSessionDataDto[],
+  ): Promise<SessionData[]> => {
+    const res = await axios.post(`${BASE_URL}/${sessionId}/data/batch`, {
+      records: data,
+    });
+    return res.data;
+  },
+
+  /** Sube (o reemplaza) un bloque comprimido de la captura completa */
+  uploadCaptureChunk: async (
+    sessionId: string,
+    chunk: Omit<SessionCaptureChunk, "sizeBytes">,
+    body: Blob,
+  ): Promise<SessionCaptureChunk> => {
+    const { index, ...meta } = chunk;
+    const res = await axios.put(
+      `${BASE_URL}/${sessionId}/capture/${index}`,
+      body,
+      { headers: { "Content-Type": "application/gzip" }, params: meta },
+    );
+    return res.data;
+  },
+
+  /** Bloques de captura disponibles para una sesión */
+  findCaptureChunks: async (
+    sessionId: string,
+  ): Promise<SessionCaptureChunk[]> => {
+    const res = await axios.get(`${BASE_URL}/${sessionId}/capture`);
+    return res.data;
+  },
+
+  /** Descarga un bloque de captura (gzip de NDJSON) */
+  downloadCaptureChunk: async (
+    sessionId: string,
+    index: number,
+  ): Promise<Blob> => {
+    const res = await axios.get(`${BASE_URL}/${sessionId}/capture/${index}`, {
+      responseType: "blob",
+    });
+    return res.data;
+  },
+
+  /** Deja constancia de un corte de conexión con el equipo */
+  addInterruption: async (
+    sessionId: string,
+    data: SessionInterruption,
+  ): Promise<SessionInterruption> => {
+    const res = await axios.post(
+      `${BASE_URL}/${sessionId}/interruptions`,
+      data,
+    );
+    return res.data;
+  },
+
+  /** Vincula la sesión con el equipo identificado al conectar */
+  attachDevice: async (
+    sessionId: string,
+    device: SessionDevice,
+  ): Promise<Session> => {
+    const res = await axios.patch(`${BASE_URL}/${sessionId}/device`, device);
+    return res.data;
+  },
+
   /** Obtiene una sesión específica con sus registros y datos del paciente */
   findOne: async (sessionId: string): Promise<Session> => {
     const res = await axios.get(`${BASE_URL}/${sessionId}`);
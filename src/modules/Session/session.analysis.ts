@@ -0,0 +1,187 @@
+// src/modules/Session/session.analysis.ts
+import type { CaptureSample, SessionData } from "./session.interface";
+
+/**
+ * Análisis por ciclo de la curva de presión de una sesión. Cada ciclo se
+ * divide en inflado (hasta alcanzar el objetivo), mantenimiento (sobre el
+ * umbral) y desinflado (hasta volver a la presión de reposo). Si todas las
+ * lecturas traen `cycleIndex` se agrupa por él; si no, los ciclos se
+ * detectan por umbrales con histéresis.
+ */
+
+export interface CycleMetrics {
+  index: number; // cycleIndex del equipo o número detectado (desde 1)
+  startedAt: number; // epoch ms
+  peakPressure: number;
+  reachedTarget: boolean;
+  timeToTargetMs: number | null;
+  holdMs: number | null;
+  holdMean: number | null;
+  holdStdDev: number | null; // estabilidad durante el mantenimiento
+  holdDecay: number | null; // caída de presión estimada en el mantenimiento
+  deflateMs: number | null; // null si la sesión terminó antes de desinflar
+  points: Array<{ t: number; p: number }>; // t relativo al inicio del ciclo (ms)
+}
+
+export interface CycleAnalysis {
+  cycles: CycleMetrics[];
+  holdThreshold: number;
+  restThreshold: number;
+  segmentedBy: "cycleIndex" | "threshold";
+}
+
+// El mantenimiento empieza al llegar a este porcentaje del objetivo
+const HOLD_RATIO = 0.9;
+// Sin objetivo: umbrales relativos al rango observado
+const RELATIVE_HOLD = 0.8;
+const REST_RATIO = 0.25;
+const MIN_CYCLE_SAMPLES = 3;
+
+export function recordsToSamples(records: SessionData[]): CaptureSample[] {
+  return records
+    .map((r) => ({
+      t: new Date(r.recordedAt).getTime(),
+      p: r.measuredPressure,
+      temp: r.temperature,
+      c: r.cycleIndex,
+    }))
+    .filter((s) => Number.isFinite(s.t) && Number.isFinite(s.p))
+    .sort((a, b) => a.t - b.t);
+}
+
+function percentile(sorted: number[], ratio: number) {
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * ratio)));
+  return sorted[idx];
+}
+
+function mean(values: number[]) {
+  return values.reduce((acc, v) => acc + v, 0) / values.length;
+}
+
+function stdDev(values: number[]) {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+/** Pendiente por mínimos cuadrados (presión por ms) */
+function slope(samples: CaptureSample[]) {
+  const t0 = samples[0].t;
+  const xs = samples.map((s) => s.t - t0);
+  const mx = mean(xs);
+  const my = mean(samples.map((s) => s.p));
+  let num = 0;
+  let den = 0;
+  samples.forEach((s, i) => {
+    num += (xs[i] - mx) * (s.p - my);
+    den += (xs[i] - mx) ** 2;
+  });
+  return den === 0 ? 0 : num / den;
+}
+
+function measureCycle(
+  index: number,
+  samples: CaptureSample[],
+  holdThreshold: number,
+  restThreshold: number,
+  closed: boolean,
+): CycleMetrics {
+  const start = samples[0].t;
+  // Sin spread: una captura larga supera el límite de argumentos
+  let peakPressure = samples[0].p;
+  for (const s of samples) if (s.p > peakPressure) peakPressure = s.p;
+  const holdStart = samples.findIndex((s) => s.p >= holdThreshold);
+  let holdEnd = -1;
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (samples[i].p >= holdThreshold) {
+      holdEnd = i;
+      break;
+    }
+  }
+
+  const hold = holdStart >= 0 ? samples.slice(holdStart, holdEnd + 1) : [];
+  const holdValues = hold.map((s) => s.p);
+  const holdMs = hold.length ? hold[hold.length - 1].t - hold[0].t : null;
+  const rest = holdEnd >= 0 ? samples.slice(holdEnd).find((s) => s.p < restThreshold) : undefined;
+
+  return {
+    index,
+    startedAt: start,
+    peakPressure,
+    reachedTarget: holdStart >= 0,
+    timeToTargetMs: holdStart >= 0 ? samples[holdStart].t - start : null,
+    holdMs,
+    holdMean: hold.length ? mean(holdValues) : null,
+    holdStdDev: hold.length > 1 ? stdDev(holdValues) : null,
+    holdDecay: hold.length > 1 && holdMs ? -slope(hold) * holdMs : null,
+    deflateMs:
+      holdEnd >= 0 && (rest || closed)
+        ? (rest ?? samples[samples.length - 1]).t - samples[holdEnd].t
+        : null,
+    points: samples.map((s) => ({ t: s.t - start, p: s.p })),
+  };
+}
+
+// Ciclo = tramo por encima de la presión de reposo (histéresis entre umbrales)
+function splitByThreshold(samples: CaptureSample[], restThreshold: number) {
+  const groups: Array<{ samples: CaptureSample[]; closed: boolean }> = [];
+  let current: CaptureSample[] | null = null;
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    if (!current) {
+      if (sample.p >= restThreshold) {
+        // El ciclo arranca en la última lectura de reposo
+        current = i > 0 ? [samples[i - 1], sample] : [sample];
+      }
+      continue;
+    }
+    current.push(sample);
+    if (sample.p < restThreshold) {
+      groups.push({ samples: current, closed: true });
+      current = null;
+    }
+  }
+  if (current) groups.push({ samples: current, closed: false });
+  return groups;
+}
+
+function splitByCycleIndex(samples: CaptureSample[]) {
+  const groups: Array<{ index: number; samples: CaptureSample[]; closed: boolean }> = [];
+  for (const sample of samples) {
+    const last = groups[groups.length - 1];
+    if (last && last.index === sample.c) last.samples.push(sample);
+    else groups.push({ index: sample.c ?? 0, samples: [sample], closed: true });
+  }
+  const last = groups[groups.length - 1];
+  if (last) last.closed = false; // el último ciclo puede haber quedado a medias
+  return groups;
+}
+
+export function analyzeCycles(
+  samples: CaptureSample[],
+  targetPressure?: number | null,
+): CycleAnalysis {
+  const pressures = samples.map((s) => s.p).sort((a, b) => a - b);
+  const base = pressures.length ? percentile(pressures, 0.1) : 0;
+  const high = pressures.length ? percentile(pressures, 0.95) : 0;
+
+  const holdThreshold =
+    targetPressure && targetPressure > 0
+      ? targetPressure * HOLD_RATIO
+      : base + (high - base) * RELATIVE_HOLD;
+  const restThreshold = base + (holdThreshold - base) * REST_RATIO;
+
+  const byIndex = samples.length > 0 && samples.every((s) => s.c != null);
+  const groups = byIndex
+    ? splitByCycleIndex(samples)
+    : splitByThreshold(samples, restThreshold).map((g, i) => ({ index: i + 1, ...g }));
+
+  return {
+    cycles: groups
+      .filter((g) => g.samples.length >= MIN_CYCLE_SAMPLES)
+      .map((g) => measureCycle(g.index, g.samples, holdThreshold, restThreshold, g.closed)),
+    holdThreshold,
+    restThreshold,
+    segmentedBy: byIndex ? "cycleIndex" : "threshold",
+  };
+}
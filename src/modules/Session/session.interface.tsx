@@ -3,6 +3,8 @@ export interface CreateSessionDto {
   patientId: string;
   targetPressure: number; // presión objetivo de la banda
   holdTimeSeconds: number; // tiempo de mantenimiento de la presión (segundos)
+  releaseTimeSeconds?: number; // tiempo de liberación entre ciclos (segundos)
+  cycleTarget?: number; // ciclos a ejecutar (0 = hasta detener)
 }
 
 // Subir datos de una sesión: mediciones del dispositivo
@@ -10,6 +12,7 @@ export interface CreateSessionDataDto {
   measuredPressure: number; // presión medida en la banda
   temperature: number; // temperatura del sensor/sistema (°C)
   cycleIndex?: number; // número de ciclo dentro de la sesión (opcional)
+  recordedAt?: string; // ISO de la lectura; si falta, el backend usa la hora de llegada
 }
 
 export interface SessionData {
@@ -34,6 +37,43 @@ export interface Session {
   // Configuración con la que se ejecutó la sesión
   targetPressure: number;
   holdTimeSeconds: number;
+  releaseTimeSeconds?: number;
+  cycleTarget?: number;
 
   records?: SessionData[];
+  interruptions?: SessionInterruption[];
+  device?: SessionDevice | null; // equipo que la ejecutó (handshake al conectar)
+}
+
+// Unidad que entregó la sesión, según su respuesta a "ID?"
+export interface SessionDevice {
+  transport: "usb" | "ble" | "virtual";
+  serialNumber?: string;
+  firmwareVersion?: string;
+  hardwareRevision?: string;
+  commands?: string[];
+}
+
+// Corte del enlace con el equipo durante la sesión (p. ej. cable USB suelto)
+export interface SessionInterruption {
+  startedAt: string; // ISO: última lectura antes del corte
+  endedAt: string; // ISO: reconexión (o cancelación)
+  durationMs: number;
+  reason?: string;
+}
+
+// Captura de alta resolución: todas las tramas del equipo, en bloques gzip
+export interface CaptureSample {
+  t: number; // epoch ms de la lectura
+  p: number; // presión medida
+  temp: number; // temperatura (°C)
+  c?: number; // índice de ciclo
+}
+
+export interface SessionCaptureChunk {
+  index: number; // orden del bloque dentro de la sesión
+  startedAt: string;
+  endedAt: string;
+  sampleCount: number;
+  sizeBytes?: number;
 }
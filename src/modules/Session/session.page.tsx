@@ -1,4 +1,4 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useParams } from "react-router-dom";
 import {
   RotateCcw,
@@ -6,7 +6,16 @@ import {
   Activity,
   Clock,
   BarChart3,
+  Download,
 } from "lucide-react";
+import {
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
 
 import { DashboardHeader } from "@/components/headerPage";
 import { Button } from "@/components/ui/button";
@@ -22,7 +31,13 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 
 import { sessionStore } from "./data/session.store";
-import type { Session, SessionData } from "./session.interface";
+import { loadSessionCapture } from "./data/session.capture";
+import { analyzeCycles, recordsToSamples } from "./session.analysis";
+import type {
+  CaptureSample,
+  Session,
+  SessionData,
+} from "./session.interface";
 
 function formatDate(dateStr?: string | null) {
   if (!dateStr) return "—";
@@ -84,6 +99,15 @@ export default function PatientSessionsPage() {
       };
     }, [sessions]);
 
+  // Una sesión larga tiene miles de registros: no se convierten en cada render
+  const samplesBySession = useMemo(
+    () =>
+      new Map(
+        (sessions ?? []).map((s) => [s.id, recordsToSamples(s.records ?? [])]),
+      ),
+    [sessions],
+  );
+
   return (
     <>
       {/* Header principal */}
@@ -243,6 +267,21 @@ export default function PatientSessionsPage() {
                               ) : (
                                 <Badge className="text-[11px]">Activa</Badge>
                               )}
+                              {!!session.interruptions?.length && (
+                                <Badge
+                                  variant="destructive"
+                                  className="text-[11px]"
+                                  title={session.interruptions
+                                    .map(
+                                      (i) =>
+                                        `${formatDate(i.startedAt)} · ${Math.round(i.durationMs / 1000)} s${i.reason ? ` · ${i.reason}` : ""}`,
+                                    )
+                                    .join("\n")}
+                                >
+                                  {session.interruptions.length} interrupción
+                                  {session.interruptions.length > 1 ? "es" : ""}
+                                </Badge>
+                              )}
                             </div>
                             <p className="text-xs text-muted-foreground">
                               Presión objetivo:{" "}
@@ -258,12 +297,30 @@ export default function PatientSessionsPage() {
                                 {session.records?.length ?? 0}
                               </span>
                             </p>
+                            {session.device && (
+                              <p className="text-[11px] text-muted-foreground">
+                                Equipo:{" "}
+                                <span className="font-mono">
+                                  {session.device.serialNumber ?? "sin nº de serie"}
+                                </span>
+                                {session.device.firmwareVersion &&
+                                  ` · fw ${session.device.firmwareVersion}`}
+                                {session.device.hardwareRevision &&
+                                  ` · hw ${session.device.hardwareRevision}`}
+                              </p>
+                            )}
                           </div>
                         </AccordionTrigger>
                         <AccordionContent>
                           <SessionRecordsTable
                             records={session.records ?? []}
                           />
+                          <SessionCycleAnalysis
+                            title="Ciclos (registros)"
+                            samples={samplesBySession.get(session.id) ?? []}
+                            session={session}
+                          />
+                          <SessionCapturePanel session={session} />
                         </AccordionContent>
                       </AccordionItem>
                     ))}
@@ -342,3 +399,214 @@ function SessionRecordsTable({ records }: SessionRecordsTableProps) {
     </div>
   );
 }
+
+/**
+ * Captura de alta resolución (todas las tramas) bajo demanda
+ */
+function SessionCapturePanel({ session }: { session: Session }) {
+  const sessionId = session.id;
+  const [samples, setSamples] = useState<CaptureSample[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSamples(await loadSessionCapture(sessionId));
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : "No se pudo cargar la captura.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chart = useMemo(() => {
+    if (!samples?.length) return [];
+    const t0 = samples[0].t;
+    return samples.map((s) => ({
+      seconds: Number(((s.t - t0) / 1000).toFixed(2)),
+      pressure: s.p,
+    }));
+  }, [samples]);
+
+  const rateHz =
+    samples && samples.length > 1
+      ? (samples.length - 1) /
+        ((samples[samples.length - 1].t - samples[0].t) / 1000)
+      : null;
+
+  const download = () => {
+    if (!samples) return;
+    const ndjson = samples.map((s) => JSON.stringify(s)).join("\n");
+    const url = URL.createObjectURL(
+      new Blob([ndjson], { type: "application/x-ndjson" }),
+    );
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `captura_${sessionId}.ndjson`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-muted-foreground">
+          Captura completa
+          {samples &&
+            ` · ${samples.length} muestras${rateHz ? ` · ${rateHz.toFixed(1)} Hz` : ""}`}
+        </span>
+        <div className="flex gap-2">
+          {samples && samples.length > 0 && (
+            <Button size="sm" variant="outline" onClick={download}>
+              <Download className="h-3 w-3 mr-1" /> NDJSON
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={load}
+            disabled={loading}
+          >
+            {samples ? "Recargar" : "Cargar captura"}
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {samples && samples.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Esta sesión no tiene captura completa.
+        </p>
+      )}
+      {chart.length > 0 && (
+        <div className="h-56 rounded-md border p-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chart}>
+              <XAxis dataKey="seconds" unit="s" />
+              <YAxis />
+              <Tooltip />
+              <Line
+                type="linear"
+                dataKey="pressure"
+                stroke="#00d4ff"
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {samples && samples.length > 0 && (
+        <SessionCycleAnalysis
+          title="Ciclos (captura completa)"
+          samples={samples}
+          session={session}
+        />
+      )}
+    </div>
+  );
+}
+
+const SPARKLINE_POINTS = 60;
+
+function seconds(ms: number | null) {
+  return ms == null ? "—" : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Métricas por ciclo (inflado, mantenimiento y desinflado) con la forma de
+ * onda de cada ciclo
+ */
+interface SessionCycleAnalysisProps {
+  title: string;
+  samples: CaptureSample[];
+  session: Session;
+}
+
+function SessionCycleAnalysis({
+  title,
+  samples,
+  session,
+}: SessionCycleAnalysisProps) {
+  const analysis = useMemo(
+    () => analyzeCycles(samples, session.targetPressure),
+    [samples, session.targetPressure],
+  );
+  const holdTargetMs = session.holdTimeSeconds * 1000;
+
+  if (analysis.cycles.length === 0) {
+    return (
+      <p className="mt-3 text-xs text-muted-foreground">
+        {title}: no se detectaron ciclos completos.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      <span className="text-xs font-medium text-muted-foreground">
+        {title} · {analysis.cycles.length} ciclos ·{" "}
+        {analysis.segmentedBy === "cycleIndex"
+          ? "según el índice de ciclo del equipo"
+          : `detectados por umbral (${analysis.holdThreshold.toFixed(1)} / ${analysis.restThreshold.toFixed(1)})`}
+      </span>
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/60 text-left text-[11px] text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2">Ciclo</th>
+              <th className="px-3 py-2">Pico</th>
+              <th className="px-3 py-2">Tiempo a objetivo</th>
+              <th className="px-3 py-2">Mantenimiento</th>
+              <th className="px-3 py-2">Estabilidad (σ)</th>
+              <th className="px-3 py-2">Caída</th>
+              <th className="px-3 py-2">Desinflado</th>
+              <th className="px-3 py-2">Forma</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {analysis.cycles.map((cycle) => {
+              const step = Math.max(1, Math.ceil(cycle.points.length / SPARKLINE_POINTS));
+              const sparkline = cycle.points.filter((_, i) => i % step === 0);
+              const shortHold =
+                cycle.holdMs != null && holdTargetMs > 0 && cycle.holdMs < holdTargetMs * 0.9;
+              return (
+                <tr key={`${cycle.index}-${cycle.startedAt}`}>
+                  <td className="px-3 py-1">{cycle.index}</td>
+                  <td className="px-3 py-1">{cycle.peakPressure.toFixed(2)}</td>
+                  <td className="px-3 py-1">
+                    {cycle.reachedTarget ? (
+                      seconds(cycle.timeToTargetMs)
+                    ) : (
+                      <span className="text-destructive">No alcanzó</span>
+                    )}
+                  </td>
+                  <td className={`px-3 py-1 ${shortHold ? "text-amber-500" : ""}`}>
+                    {seconds(cycle.holdMs)}
+                  </td>
+                  <td className="px-3 py-1">{cycle.holdStdDev?.toFixed(2) ?? "—"}</td>
+                  <td className="px-3 py-1">{cycle.holdDecay?.toFixed(2) ?? "—"}</td>
+                  <td className="px-3 py-1">{seconds(cycle.deflateMs)}</td>
+                  <td className="px-3 py-1">
+                    <LineChart width={96} height={24} data={sparkline}>
+                      <Line
+                        type="linear"
+                        dataKey="p"
+                        stroke="#00d4ff"
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+// src/modules/Telemetry/bandFitAlert.tsx
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  formatBandFitWarning,
+  type BandFitWarning,
+} from "@/modules/Monitoring/bandFitDetector";
+
+// Fuga o re-inflados durante el tratamiento activo: la terapia sigue, pero conviene revisar la banda
+export function BandFitAlert({ warnings }: { warnings: BandFitWarning[] }) {
+  if (!warnings.length) return null;
+  const cycles = new Set(
+    warnings.filter((w) => w.scope === "cycle").map((w) => w.cycle),
+  ).size;
+  return (
+    <Alert className="border-amber-500/50 text-amber-500">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        Posible banda mal ajustada ({cycles} {cycles === 1 ? "ciclo" : "ciclos"})
+      </AlertTitle>
+      <AlertDescription>
+        {warnings
+          .slice(-3)
+          .reverse()
+          .map((w) => (
+            <p key={`${w.kind}-${w.scope}-${w.at}`}>{formatBandFitWarning(w)}</p>
+          ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
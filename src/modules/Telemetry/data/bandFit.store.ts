@@ -0,0 +1,84 @@
+// src/modules/Telemetry/data/bandFit.store.ts
+import { create } from "zustand";
+import { raiseSystemAlert } from "@/lib/systemAlert";
+import {
+  createBandFitDetector,
+  formatBandFitWarning,
+  sessionBandFitLimits,
+  type BandFitDetector,
+  type BandFitWarning,
+} from "@/modules/Monitoring/bandFitDetector";
+import { currentReading, readingsAfter, treatmentAnchor } from "../deviceState";
+import type { DeviceStatus } from "../telemetry.schema";
+
+/**
+ * Ajuste de la banda durante el tratamiento activo, a partir de la
+ * telemetría en vivo (tópico "live"). El detector recibe cada lectura del
+ * historial con su propia hora. Una alerta por tipo y alcance por
+ * tratamiento queda en el feed de AdminAlertsPage; la clave de la alerta
+ * evita que cada pestaña abierta la repita.
+ */
+
+interface BandFitState {
+  treatmentId: string | null;
+  warnings: BandFitWarning[];
+
+  /** Procesa un payload de /doctor/dashboard/live */
+  record: (payload: DeviceStatus) => void;
+}
+
+let detector: BandFitDetector | null = null;
+let alerted = new Set<string>();
+let lastAt = 0; // última lectura entregada al detector
+
+export const bandFitStore = create<BandFitState>((set, get) => ({
+  treatmentId: null,
+  warnings: [],
+
+  record: (payload) => {
+    const treatment = payload.activeTreatment ?? null;
+    const status = currentReading(payload);
+
+    if (treatment?.id !== get().treatmentId) {
+      detector = null;
+      alerted = new Set();
+      // El historial anterior al inicio es de la espera o del tratamiento previo
+      lastAt = treatment ? treatmentAnchor(payload) : 0;
+      set({ treatmentId: treatment?.id ?? null, warnings: [] });
+    }
+    if (!treatment) return;
+
+    // El objetivo llega con la telemetría; sin él no hay referencia
+    if (!detector) {
+      if (!status.targetPressureKpa) return;
+      detector = createBandFitDetector(sessionBandFitLimits(status.targetPressureKpa));
+    }
+
+    const warnings: BandFitWarning[] = [];
+    for (const { reading, at } of readingsAfter(payload, lastAt)) {
+      lastAt = at;
+      if (reading.pressureKpa == null) continue;
+      warnings.push(
+        ...detector.push({
+          at,
+          pressure: reading.pressureKpa,
+          state: reading.state,
+          cycleIndex: reading.cycleIndex ?? undefined,
+        }),
+      );
+    }
+    if (!warnings.length) return;
+    set((s) => ({ warnings: [...s.warnings, ...warnings] }));
+
+    for (const warning of warnings) {
+      const key = `${warning.kind}-${warning.scope}`;
+      if (alerted.has(key)) continue;
+      alerted.add(key);
+      raiseSystemAlert(
+        "warn",
+        `${formatBandFitWarning(warning)} · paciente ${treatment.patientName ?? treatment.patientId ?? "—"} · tratamiento ${treatment.id.slice(0, 8)}`,
+        `band-fit:${treatment.id}:${key}`,
+      ).catch((e: unknown) => console.error(e));
+    }
+  },
+}));
@@ -0,0 +1,16 @@
+// src/modules/Telemetry/data/stateTimeline.service.ts
+import axios from "@/lib/axios";
+import type { StoredStateTimeline } from "../stateTimeline";
+
+export const stateTimelineService = {
+  /**
+   * Agrega transiciones al registro del tratamiento. El backend las fusiona
+   * por `at`: varias pestañas pueden enviar las mismas sin duplicarlas.
+   */
+  append: async (
+    treatmentId: string,
+    data: StoredStateTimeline,
+  ): Promise<void> => {
+    await axios.post(`/doctor/treatments/${treatmentId}/state-timeline`, data);
+  },
+};
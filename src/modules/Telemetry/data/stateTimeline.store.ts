@@ -0,0 +1,128 @@
+// src/modules/Telemetry/data/stateTimeline.store.ts
+import { create } from "zustand";
+import { currentReading, readingsAfter, treatmentAnchor } from "../deviceState";
+import type { DeviceStatus } from "../telemetry.schema";
+import type { StateTimelineRecord, StateTransition } from "../stateTimeline";
+import { stateTimelineService } from "./stateTimeline.service";
+
+/**
+ * Registra los cambios de estado del equipo por tratamiento a partir de la
+ * telemetría en vivo (tópico "live"). Cada lectura del historial cuenta con
+ * su propia hora, así que no se pierden fases entre dos payloads. Las
+ * transiciones se guardan con el tratamiento en el backend; aquí solo queda
+ * lo visto en esta pestaña para la vista en vivo.
+ */
+
+const MAX_RECORDS = 30;
+const FLUSH_DELAY_MS = 2000;
+const RETRY_DELAY_MS = 10000;
+
+interface StateTimelineState {
+  records: Record<string, StateTimelineRecord>;
+  activeTreatmentId: string | null;
+
+  /** Procesa un payload de /doctor/dashboard/live */
+  record: (payload: DeviceStatus) => void;
+}
+
+// Inicio del tratamiento activo según treatmentAnchor
+let anchor = 0;
+
+// Transiciones aún no guardadas en el backend, por tratamiento
+const unsent = new Map<string, StateTransition[]>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleFlush(delayMs = FLUSH_DELAY_MS) {
+  flushTimer ??= setTimeout(() => void flush(), delayMs);
+}
+
+async function flush() {
+  flushTimer = null;
+  const { records } = stateTimelineStore.getState();
+  for (const [treatmentId, transitions] of [...unsent]) {
+    unsent.delete(treatmentId);
+    const record = records[treatmentId];
+    try {
+      await stateTimelineService.append(treatmentId, {
+        configuredHoldMs: record?.configuredHoldMs ?? null,
+        configuredReleaseMs: record?.configuredReleaseMs ?? null,
+        transitions,
+      });
+    } catch (e: unknown) {
+      console.error(e);
+      unsent.set(treatmentId, [...transitions, ...(unsent.get(treatmentId) ?? [])]);
+      scheduleFlush(RETRY_DELAY_MS);
+    }
+  }
+}
+
+// Conserva en memoria solo los tratamientos más recientes
+function trimRecords(records: Record<string, StateTimelineRecord>) {
+  const kept = Object.values(records)
+    .sort((a, b) => (b.transitions[0]?.at ?? 0) - (a.transitions[0]?.at ?? 0))
+    .slice(0, MAX_RECORDS);
+  return Object.fromEntries(kept.map((r) => [r.treatmentId, r]));
+}
+
+export const stateTimelineStore = create<StateTimelineState>((set, get) => ({
+  records: {},
+  activeTreatmentId: null,
+
+  record: (payload) => {
+    const { records, activeTreatmentId } = get();
+    const treatment = payload.activeTreatment ?? null;
+    const latestAt = readingsAfter(payload, 0).at(-1)?.at ?? Date.now();
+    let next = records;
+
+    // Cierra el tratamiento anterior (terminó o empezó otro)
+    if (activeTreatmentId && activeTreatmentId !== treatment?.id) {
+      const previous = next[activeTreatmentId];
+      if (previous && previous.endedAt == null) {
+        const endedAt = Math.max(latestAt, previous.transitions.at(-1)?.at ?? 0);
+        next = { ...next, [activeTreatmentId]: { ...previous, endedAt } };
+      }
+    }
+
+    if (treatment) {
+      if (treatment.id !== activeTreatmentId) anchor = treatmentAnchor(payload);
+      const existing = next[treatment.id];
+      const last = existing?.transitions.at(-1);
+      const added: StateTransition[] = [];
+      let state = last?.state;
+      for (const { reading, at } of readingsAfter(payload, last?.at ?? anchor)) {
+        if (!reading.state || reading.state === state) continue;
+        state = reading.state;
+        added.push({ state, at, cycleIndex: reading.cycleIndex ?? null });
+      }
+
+      if (added.length || existing?.endedAt != null) {
+        const status = currentReading(payload);
+        next = {
+          ...next,
+          [treatment.id]: {
+            treatmentId: treatment.id,
+            patientName: treatment.patientName ?? existing?.patientName ?? null,
+            intensity: treatment.intensity ?? existing?.intensity ?? null,
+            configuredHoldMs:
+              status.configuredHoldTimeMs ?? existing?.configuredHoldMs ?? null,
+            configuredReleaseMs:
+              status.configuredReleaseTimeMs ?? existing?.configuredReleaseMs ?? null,
+            transitions: [...(existing?.transitions ?? []), ...added],
+            endedAt: null,
+          },
+        };
+      }
+      if (added.length) {
+        unsent.set(treatment.id, [...(unsent.get(treatment.id) ?? []), ...added]);
+        scheduleFlush();
+      }
+    }
+
+    const nextActive = treatment?.id ?? null;
+    if (next === records && nextActive === activeTreatmentId) return;
+    set({
+      records: next === records ? records : trimRecords(next),
+      activeTreatmentId: nextActive,
+    });
+  },
+}));
@@ -0,0 +1,144 @@
+// src/modules/Telemetry/data/telemetry.store.ts
+import { useEffect } from "react";
+import { create } from "zustand";
+import axios from "@/lib/axios";
+import {
+  openTelemetryStream,
+  TELEMETRY_ENDPOINTS,
+  type TelemetryConnection,
+  type TelemetryTopic,
+  type TelemetryTransport,
+} from "./telemetry.stream";
+import { parseDeviceStatus, type DeviceStatus } from "../telemetry.schema";
+import { stateTimelineStore } from "./stateTimeline.store";
+import { bandFitStore } from "./bandFit.store";
+
+/**
+ * Una sola conexión de telemetría para toda la app: las páginas montadas
+ * se suscriben por tópico y comparten el mismo stream (o el mismo sondeo).
+ * La conexión se abre con la primera suscripción y se cierra con la última.
+ * Cada payload se valida aquí; si no cumple el esquema se conserva el último
+ * válido y el problema queda en `issues` para que la página lo muestre.
+ */
+
+interface TelemetryState {
+  data: Partial<Record<TelemetryTopic, DeviceStatus>>;
+  receivedAt: Partial<Record<TelemetryTopic, number>>;
+  issues: Partial<Record<TelemetryTopic, string>>; // último payload inválido
+  transport: TelemetryTransport | "idle";
+  error: string | null;
+
+  /** Suma un suscriptor al tópico; devuelve la función para darse de baja */
+  subscribe: (topic: TelemetryTopic) => () => void;
+  /** Pide la instantánea REST del tópico (p. ej. tras enviar un comando) */
+  refresh: (topic: TelemetryTopic) => Promise<void>;
+}
+
+const subscribers = new Map<TelemetryTopic, number>();
+let connection: TelemetryConnection | null = null;
+let connectedTopics = "";
+let lastEventId: string | undefined;
+let applyTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const telemetryStore = create<TelemetryState>((set, get) => {
+  const receive = (topic: TelemetryTopic, payload: unknown) => {
+    const parsed = parseDeviceStatus(payload);
+    if (!parsed.ok) {
+      if (get().issues[topic] !== parsed.error) {
+        console.error(`Telemetría inválida (${topic}): ${parsed.error}`);
+      }
+      set((s) => ({ issues: { ...s.issues, [topic]: parsed.error } }));
+      return;
+    }
+    set((s) => ({
+      data: { ...s.data, [topic]: parsed.value },
+      receivedAt: { ...s.receivedAt, [topic]: Date.now() },
+      issues: { ...s.issues, [topic]: undefined },
+    }));
+    // Solo "live" trae el tratamiento activo
+    if (topic === "live") {
+      stateTimelineStore.getState().record(parsed.value);
+      bandFitStore.getState().record(parsed.value);
+    }
+  };
+
+  // Reabre la conexión solo si cambió el conjunto de tópicos
+  const apply = () => {
+    applyTimer = null;
+    const topics = [...subscribers.keys()].sort();
+    const key = topics.join(",");
+    if (key === connectedTopics) return;
+
+    if (connection) {
+      lastEventId = connection.lastEventId();
+      connection.close();
+      connection = null;
+    }
+    connectedTopics = key;
+    if (!topics.length) {
+      set({ transport: "idle", error: null });
+      return;
+    }
+    connection = openTelemetryStream(
+      topics,
+      {
+        onMessage: ({ topic, data }) => receive(topic, data),
+        onTransport: (transport) => set({ transport }),
+        onError: (error) => set({ error }),
+      },
+      lastEventId,
+    );
+  };
+
+  // Agrupa altas y bajas del mismo render (cambio de ruta, StrictMode)
+  const schedule = () => {
+    applyTimer ??= setTimeout(apply, 0);
+  };
+
+  return {
+    data: {},
+    receivedAt: {},
+    issues: {},
+    transport: "idle",
+    error: null,
+
+    subscribe: (topic) => {
+      const count = subscribers.get(topic) ?? 0;
+      subscribers.set(topic, count + 1);
+      if (count === 0 && get().data[topic] === undefined) {
+        void get().refresh(topic);
+      }
+      schedule();
+
+      let active = true;
+      return () => {
+        if (!active) return;
+        active = false;
+        const remaining = (subscribers.get(topic) ?? 1) - 1;
+        if (remaining > 0) subscribers.set(topic, remaining);
+        else subscribers.delete(topic);
+        schedule();
+      };
+    },
+
+    refresh: async (topic) => {
+      try {
+        const res = await axios.get(TELEMETRY_ENDPOINTS[topic]);
+        receive(topic, res.data);
+      } catch (e: unknown) {
+        set({
+          error:
+            e instanceof Error ? e.message : "No se pudo obtener la telemetría.",
+        });
+      }
+    },
+  };
+});
+
+/** Último valor válido del tópico; mantiene la suscripción mientras el componente esté montado */
+export function useLiveTelemetry(topic: TelemetryTopic) {
+  const data = telemetryStore((s) => s.data[topic]) ?? null;
+  const issue = telemetryStore((s) => s.issues[topic]) ?? null;
+  useEffect(() => telemetryStore.getState().subscribe(topic), [topic]);
+  return { data, issue };
+}
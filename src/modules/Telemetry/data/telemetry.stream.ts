@@ -0,0 +1,228 @@
+// src/modules/Telemetry/data/telemetry.stream.ts
+import Cookies from "js-cookie";
+import axios from "@/lib/axios";
+
+/**
+ * Conexión de telemetría en vivo con el backend. Usa Server-Sent Events
+ * (`/telemetry/stream`) sobre fetch para poder enviar el token y el
+ * `Last-Event-ID`; si el stream falla repetidamente, consulta los mismos
+ * endpoints REST cada 2 s mientras sigue reintentando el stream.
+ */
+
+export type TelemetryTopic = "mqtt" | "live";
+
+// Endpoint REST equivalente a cada tópico (instantánea y modo sondeo)
+export const TELEMETRY_ENDPOINTS: Record<TelemetryTopic, string> = {
+  mqtt: "/mqtt/status",
+  live: "/doctor/dashboard/live",
+};
+
+export type TelemetryTransport = "stream" | "polling";
+
+export interface TelemetryMessage {
+  topic: TelemetryTopic;
+  data: unknown;
+  eventId?: string;
+}
+
+export interface TelemetryHandlers {
+  onMessage: (message: TelemetryMessage) => void;
+  onTransport: (transport: TelemetryTransport) => void;
+  onError: (message: string | null) => void;
+}
+
+export interface TelemetryConnection {
+  /** Último id recibido, para retomar el stream sin perder eventos */
+  lastEventId: () => string | undefined;
+  close: () => void;
+}
+
+const STREAM_PATH = "/telemetry/stream";
+const POLL_EVERY_MS = 2000;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30_000;
+const FAILURES_BEFORE_POLLING = 2;
+const IDLE_TIMEOUT_MS = 30_000; // el backend envía ": ping" cada 15 s
+
+type RawEvent = { event: string; data: string; id?: string };
+
+function isTopic(value: string, topics: TelemetryTopic[]): value is TelemetryTopic {
+  return (topics as string[]).includes(value);
+}
+
+/** Parser de text/event-stream: entrega cada evento completo */
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: RawEvent) => void,
+  onActivity: () => void,
+) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  const dispatch = () => {
+    if (data.length) onEvent({ event, data: data.join("\n"), id });
+    event = "message";
+    data = [];
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      onActivity();
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line === "") {
+          dispatch();
+          continue;
+        }
+        if (line.startsWith(":")) continue; // comentario / heartbeat
+        const sep = line.indexOf(":");
+        const field = sep === -1 ? line : line.slice(0, sep);
+        const raw = sep === -1 ? "" : line.slice(sep + 1);
+        const fieldValue = raw.startsWith(" ") ? raw.slice(1) : raw;
+        if (field === "event") event = fieldValue;
+        else if (field === "data") data.push(fieldValue);
+        else if (field === "id") id = fieldValue;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function openTelemetryStream(
+  topics: TelemetryTopic[],
+  handlers: TelemetryHandlers,
+  resumeFrom?: string,
+): TelemetryConnection {
+  let closed = false;
+  let lastEventId = resumeFrom;
+  let controller: AbortController | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let wake: (() => void) | null = null;
+  let opened = false; // el último intento llegó a recibir el stream
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+
+  const poll = async () => {
+    try {
+      await Promise.all(
+        topics.map(async (topic) => {
+          const res = await axios.get(TELEMETRY_ENDPOINTS[topic]);
+          if (!closed) handlers.onMessage({ topic, data: res.data });
+        }),
+      );
+      if (!closed) handlers.onError(null);
+    } catch (e: unknown) {
+      if (!closed) {
+        handlers.onError(
+          e instanceof Error ? e.message : "No se pudo obtener la telemetría.",
+        );
+      }
+    }
+  };
+
+  const startPolling = () => {
+    if (pollTimer || closed) return;
+    handlers.onTransport("polling");
+    void poll();
+    pollTimer = setInterval(() => void poll(), POLL_EVERY_MS);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  const runStream = async () => {
+    controller = new AbortController();
+    const current = controller;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    const touch = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => current.abort(), IDLE_TIMEOUT_MS);
+    };
+
+    const headers: Record<string, string> = { Accept: "text/event-stream" };
+    const token = Cookies.get("auth_token");
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+
+    const url = new URL(STREAM_PATH, axios.defaults.baseURL);
+    url.searchParams.set("topics", topics.join(","));
+
+    try {
+      touch();
+      const res = await fetch(url, { headers, signal: current.signal });
+      if (!res.ok || !res.body) {
+        throw new Error(`Stream de telemetría no disponible (${res.status}).`);
+      }
+
+      opened = true;
+      stopPolling();
+      handlers.onTransport("stream");
+      handlers.onError(null);
+
+      await readEvents(
+        res.body,
+        ({ event, data, id }) => {
+          if (id !== undefined) lastEventId = id;
+          if (!isTopic(event, topics)) return;
+          try {
+            handlers.onMessage({ topic: event, data: JSON.parse(data), eventId: id });
+          } catch {
+            // evento malformado: se ignora
+          }
+        },
+        touch,
+      );
+    } finally {
+      if (idleTimer) clearTimeout(idleTimer);
+      controller = null;
+    }
+  };
+
+  const loop = async () => {
+    let failures = 0;
+    while (!closed) {
+      opened = false;
+      try {
+        await runStream();
+      } catch {
+        // se reintenta abajo
+      }
+      if (closed) return;
+
+      // Un stream que llegó a conectarse y se cortó vuelve a abrirse rápido
+      failures = opened ? 1 : failures + 1;
+      if (failures >= FAILURES_BEFORE_POLLING) startPolling();
+      await sleep(Math.min(RETRY_BASE_MS * 2 ** (failures - 1), RETRY_MAX_MS));
+    }
+  };
+
+  void loop();
+
+  return {
+    lastEventId: () => lastEventId,
+    close() {
+      closed = true;
+      controller?.abort();
+      stopPolling();
+      wake?.();
+    },
+  };
+}
@@ -0,0 +1,108 @@
+// src/modules/Telemetry/deviceState.ts
+import type {
+  DeviceReading,
+  DeviceState,
+  DeviceStatus,
+} from "./telemetry.schema";
+
+export const DEVICE_STATE_META: Record<
+  DeviceState,
+  { label: string; className: string }
+> = {
+  INFLA: { label: "Inflando", className: "bg-cyan-500/15 text-cyan-400" },
+  MANTIENE: { label: "Manteniendo", className: "bg-emerald-500/15 text-emerald-400" },
+  DESINFLA: { label: "Desinflando", className: "bg-amber-500/15 text-amber-400" },
+  LISTO: { label: "Listo", className: "bg-emerald-500/15 text-emerald-400" },
+  ERROR: { label: "Error", className: "bg-red-500/15 text-red-400" },
+  MENU: { label: "En espera", className: "bg-zinc-500/15 text-zinc-300" },
+};
+
+const UNKNOWN_STATE = { label: "-", className: "bg-zinc-500/15 text-zinc-300" };
+
+export function deviceStateMeta(state?: DeviceState) {
+  return state ? DEVICE_STATE_META[state] : UNKNOWN_STATE;
+}
+
+/**
+ * Estado actual del equipo: la última lectura del historial (o `telemetry`)
+ * sobre el estado publicado; el ACK solo viene en `status`.
+ */
+export function currentReading(payload: DeviceStatus | null): DeviceReading {
+  const latest = payload?.history.at(-1) ?? payload?.telemetry ?? null;
+  const status = payload?.status ?? null;
+  return {
+    ...(status ?? {}),
+    ...(latest ?? {}),
+    state: latest?.state ?? status?.state,
+    lastAck: status?.lastAck ?? null,
+  };
+}
+
+export interface TimedReading {
+  reading: DeviceReading;
+  at: number; // epoch ms
+}
+
+/**
+ * Lecturas posteriores a `after`, en orden y cada una con su propia hora.
+ * Si el backend no informa horas, solo la actual con la hora de llegada.
+ */
+export function readingsAfter(
+  payload: DeviceStatus,
+  after: number,
+  receivedAt = Date.now(),
+): TimedReading[] {
+  const source = payload.history.length
+    ? payload.history
+    : payload.telemetry
+      ? [payload.telemetry]
+      : [];
+  const timed = source.filter((item) => item.recordedAt != null);
+  if (!timed.length) {
+    return receivedAt > after
+      ? [{ reading: currentReading(payload), at: receivedAt }]
+      : [];
+  }
+  return timed
+    .map((item) => ({ reading: item, at: item.recordedAt as number }))
+    .filter((item) => item.at > after)
+    .sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Desde cuándo cuentan las lecturas de un tratamiento recién visto: su
+ * inicio si el backend lo informa; si no, la lectura más nueva del payload.
+ * Lo anterior del historial es de la espera o del tratamiento previo.
+ */
+export function treatmentAnchor(
+  payload: DeviceStatus,
+  receivedAt = Date.now(),
+): number {
+  const startedAt = payload.activeTreatment?.startedAt;
+  if (startedAt != null) return startedAt;
+  return readingsAfter(payload, -Infinity, receivedAt).at(-1)?.at ?? receivedAt;
+}
+
+/** Valor con unidad, o "-" si el equipo no lo informó */
+export function formatMeasurement(
+  value: number | null | undefined,
+  digits: number,
+  unit: string,
+) {
+  return value == null ? "-" : `${value.toFixed(digits)} ${unit}`;
+}
+
+/** Milisegundos del equipo como segundos enteros */
+export function formatSeconds(ms: number | null | undefined) {
+  return ms == null ? "-" : `${Math.floor(ms / 1000)} s`;
+}
+
+/** Puntos para las gráficas; los huecos quedan como null */
+export function historyChartData(history: DeviceReading[]) {
+  return history.map((item, idx) => ({
+    idx,
+    pressure: item.pressureKpa ?? null,
+    temp: item.temperatureC ?? null,
+    force: item.forceNewtons ?? null,
+  }));
+}
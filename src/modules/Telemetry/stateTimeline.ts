@@ -0,0 +1,114 @@
+// src/modules/Telemetry/stateTimeline.ts
+import type { DeviceState } from "./telemetry.schema";
+
+/**
+ * Línea de tiempo de la máquina de estados del equipo durante un
+ * tratamiento: cada cambio de estado recibido por telemetría, agrupado en
+ * ciclos (cada INFLA abre uno) y comparado con los tiempos configurados.
+ */
+
+export interface StateTransition {
+  state: DeviceState;
+  at: number; // epoch ms de la lectura que trajo el cambio
+  cycleIndex: number | null;
+}
+
+export interface StateTimelineRecord {
+  treatmentId: string;
+  patientName: string | null;
+  intensity: string | null;
+  configuredHoldMs: number | null;
+  configuredReleaseMs: number | null;
+  transitions: StateTransition[];
+  endedAt: number | null; // null mientras el tratamiento sigue activo
+}
+
+/** Lo que guarda el backend junto al tratamiento (ver historial) */
+export type StoredStateTimeline = Pick<
+  StateTimelineRecord,
+  "configuredHoldMs" | "configuredReleaseMs" | "transitions"
+>;
+
+export interface TimelinePhase {
+  state: DeviceState;
+  startedAt: number;
+  durationMs: number;
+  expectedMs: number | null;
+  deviation: boolean;
+  open: boolean; // fase en curso
+}
+
+export interface TimelineCycle {
+  cycleIndex: number | null; // null: fases previas al primer inflado
+  phases: TimelinePhase[];
+  durationMs: number;
+}
+
+// Margen antes de marcar una fase: la telemetría llega cada ~100 ms por
+// stream, pero cada 2 s en modo sondeo
+export const PHASE_TOLERANCE = {
+  MIN_MS: 1000,
+  RATIO: 0.1,
+} as const;
+
+function expectedPhaseMs(state: DeviceState, record: StateTimelineRecord) {
+  if (state === "MANTIENE") return record.configuredHoldMs;
+  if (state === "DESINFLA") return record.configuredReleaseMs;
+  return null;
+}
+
+function isDeviation(durationMs: number, expectedMs: number | null, open: boolean) {
+  if (expectedMs == null) return false;
+  const tolerance = Math.max(PHASE_TOLERANCE.MIN_MS, expectedMs * PHASE_TOLERANCE.RATIO);
+  // Una fase en curso solo puede desviarse por exceso
+  if (open) return durationMs > expectedMs + tolerance;
+  return Math.abs(durationMs - expectedMs) > tolerance;
+}
+
+export function buildTimeline(
+  record: StateTimelineRecord,
+  now = Date.now(),
+): TimelineCycle[] {
+  const cycles: TimelineCycle[] = [];
+  let current: TimelineCycle | null = null;
+  let cycleCount = 0;
+
+  record.transitions.forEach((transition, idx) => {
+    const next = record.transitions[idx + 1];
+    const open = !next && record.endedAt == null;
+    const end = next?.at ?? record.endedAt ?? now;
+    const durationMs = Math.max(0, end - transition.at);
+    const expectedMs = expectedPhaseMs(transition.state, record);
+
+    if (transition.state === "INFLA" || !current) {
+      const starts = transition.state === "INFLA";
+      if (starts) cycleCount += 1;
+      current = {
+        cycleIndex: starts ? (transition.cycleIndex ?? cycleCount) : null,
+        phases: [],
+        durationMs: 0,
+      };
+      cycles.push(current);
+    }
+
+    current.phases.push({
+      state: transition.state,
+      startedAt: transition.at,
+      durationMs,
+      expectedMs,
+      deviation: isDeviation(durationMs, expectedMs, open),
+      open,
+    });
+    current.durationMs += durationMs;
+  });
+
+  return cycles;
+}
+
+export function timelineDeviations(cycles: TimelineCycle[]) {
+  return cycles.flatMap((cycle) =>
+    cycle.phases
+      .filter((phase) => phase.deviation)
+      .map((phase) => ({ cycleIndex: cycle.cycleIndex, phase })),
+  );
+}
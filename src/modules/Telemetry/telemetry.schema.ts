@@ -0,0 +1,97 @@
+// src/modules/Telemetry/telemetry.schema.ts
+import { z } from "zod";
+
+/**
+ * Contrato de /mqtt/status y /doctor/dashboard/live (y de sus eventos en
+ * el stream). Se valida al recibir: un payload que no cumple se reporta
+ * en lugar de mostrarse como "0 kPa".
+ */
+
+// Estados que publica el firmware (ver máquina de estados del ESP32)
+export const DEVICE_STATES = [
+  "MENU",
+  "INFLA",
+  "MANTIENE",
+  "DESINFLA",
+  "LISTO",
+  "ERROR",
+] as const;
+
+export const deviceStateSchema = z
+  .string()
+  .transform((value) => value.trim().toUpperCase())
+  .pipe(z.enum(DEVICE_STATES));
+
+export type DeviceState = z.infer<typeof deviceStateSchema>;
+
+// El backend reenvía algunos valores del equipo como texto ("12.5")
+const measurement = z
+  .union([z.number(), z.string().trim().min(1)])
+  .pipe(z.coerce.number())
+  .nullish();
+
+// Momento de la lectura (ISO o epoch ms), como epoch ms
+const instant = z
+  .union([z.number(), z.string().trim().min(1)])
+  .transform((value) => new Date(value).getTime())
+  .pipe(z.number())
+  .nullish();
+
+export const deviceAckSchema = z.object({
+  command: z.string().optional(),
+  result: z.string().optional(),
+});
+
+export const deviceReadingSchema = z.object({
+  recordedAt: instant,
+  state: deviceStateSchema.optional(),
+  connected: z.boolean().optional(),
+  pressureKpa: measurement,
+  targetPressureKpa: measurement,
+  forceNewtons: measurement,
+  temperatureC: measurement,
+  cycleIndex: measurement,
+  pumpOn: z.boolean().optional(),
+  valveClosed: z.boolean().optional(),
+  holdRemainingMs: measurement,
+  configuredHoldTimeMs: measurement,
+  configuredReleaseTimeMs: measurement,
+  configuredCycleTarget: measurement,
+  lastAck: deviceAckSchema.nullish(),
+});
+
+export const activeTreatmentSchema = z.object({
+  id: z.string(),
+  patientId: z.string().nullish(),
+  patientName: z.string().nullish(),
+  intensity: z.string().nullish(),
+  treatmentZone: z.string().nullish(),
+  mobilityLevel: z.string().nullish(),
+  planId: z.string().nullish(), // plan de tratamiento al que pertenece, si lo hay
+  startedAt: instant,
+  cycleCount: measurement,
+});
+
+export const deviceStatusSchema = z.object({
+  status: deviceReadingSchema.nullish(),
+  telemetry: deviceReadingSchema.nullish(), // última lectura, si no hay historial
+  history: z.array(deviceReadingSchema).default([]),
+  activeTreatment: activeTreatmentSchema.nullish(),
+});
+
+export type DeviceAck = z.infer<typeof deviceAckSchema>;
+export type DeviceReading = z.infer<typeof deviceReadingSchema>;
+export type ActiveTreatment = z.infer<typeof activeTreatmentSchema>;
+export type DeviceStatus = z.infer<typeof deviceStatusSchema>;
+
+/** Valida el payload; en caso de error devuelve un resumen legible */
+export function parseDeviceStatus(
+  data: unknown,
+): { ok: true; value: DeviceStatus } | { ok: false; error: string } {
+  const result = deviceStatusSchema.safeParse(data);
+  if (result.success) return { ok: true, value: result.data };
+  const issues = result.error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join(".") || "payload"}: ${issue.message}`);
+  return { ok: false, error: issues.join("; ") };
+}
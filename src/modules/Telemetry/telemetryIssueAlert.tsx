@@ -0,0 +1,18 @@
+// src/modules/Telemetry/telemetryIssueAlert.tsx
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+// Payload del equipo que no pasó la validación: los valores mostrados son los últimos válidos
+export function TelemetryIssueAlert({ issue }: { issue: string | null }) {
+  if (!issue) return null;
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Telemetria invalida</AlertTitle>
+      <AlertDescription>
+        El equipo envio datos que no se pueden interpretar ({issue}). Se muestran
+        los ultimos valores validos.
+      </AlertDescription>
+    </Alert>
+  );
+}
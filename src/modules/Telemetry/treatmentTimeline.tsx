@@ -0,0 +1,110 @@
+// src/modules/Telemetry/treatmentTimeline.tsx
+import { useEffect, useMemo, useState } from "react";
+import { DEVICE_STATES, type DeviceState } from "./telemetry.schema";
+import { DEVICE_STATE_META } from "./deviceState";
+import {
+  buildTimeline,
+  timelineDeviations,
+  type StateTimelineRecord,
+  type TimelinePhase,
+} from "./stateTimeline";
+
+const BAR_COLOR: Record<DeviceState, string> = {
+  INFLA: "bg-cyan-500",
+  MANTIENE: "bg-emerald-500",
+  DESINFLA: "bg-amber-500",
+  LISTO: "bg-emerald-300",
+  ERROR: "bg-red-500",
+  MENU: "bg-zinc-500",
+};
+
+function seconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+function phaseTitle(phase: TimelinePhase) {
+  const label = DEVICE_STATE_META[phase.state].label;
+  const expected = phase.expectedMs != null ? ` (config ${seconds(phase.expectedMs)})` : "";
+  return `${label}: ${seconds(phase.durationMs)}${phase.open ? " en curso" : ""}${expected}`;
+}
+
+// Reloj para que la fase en curso crezca sin esperar telemetría
+function useNow(active: boolean) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
+}
+
+export function TreatmentTimeline({ record }: { record: StateTimelineRecord }) {
+  const now = useNow(record.endedAt == null);
+  const cycles = useMemo(() => buildTimeline(record, now), [record, now]);
+  const deviations = useMemo(() => timelineDeviations(cycles), [cycles]);
+  const longest = Math.max(1, ...cycles.map((cycle) => cycle.durationMs));
+
+  if (!cycles.length) {
+    return <p className="text-sm text-muted-foreground">Sin cambios de estado registrados.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {DEVICE_STATES.map((state) => (
+          <span key={state} className="flex items-center gap-1">
+            <span className={`h-2 w-3 rounded-sm ${BAR_COLOR[state]}`} />
+            {DEVICE_STATE_META[state].label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-3 rounded-sm ring-2 ring-inset ring-red-500" />
+          Fuera de tiempo configurado
+        </span>
+      </div>
+
+      <div className="max-h-96 space-y-1 overflow-y-auto pr-1">
+        {cycles.map((cycle, idx) => (
+          <div key={idx} className="flex items-center gap-2 text-xs">
+            <span className="w-16 shrink-0 text-muted-foreground">
+              {cycle.cycleIndex != null ? `Ciclo ${cycle.cycleIndex}` : "Inicio"}
+            </span>
+            <div className="flex h-5 flex-1 overflow-hidden rounded bg-muted/30">
+              {cycle.phases.map((phase) => (
+                <div
+                  key={phase.startedAt}
+                  title={phaseTitle(phase)}
+                  className={
+                    `h-full ${BAR_COLOR[phase.state]} ` +
+                    (phase.deviation ? "ring-2 ring-inset ring-red-500 " : "") +
+                    (phase.open ? "animate-pulse" : "")
+                  }
+                  style={{ width: `${(phase.durationMs / longest) * 100}%` }}
+                />
+              ))}
+            </div>
+            <span className="w-14 shrink-0 text-right font-mono">{seconds(cycle.durationMs)}</span>
+          </div>
+        ))}
+      </div>
+
+      {deviations.length > 0 ? (
+        <div className="space-y-1 rounded-md border border-red-500/40 p-3 text-xs">
+          <p className="font-medium text-red-400">
+            {deviations.length} fase(s) fuera del tiempo configurado
+          </p>
+          {deviations.map(({ cycleIndex, phase }) => (
+            <p key={phase.startedAt} className="text-muted-foreground">
+              {cycleIndex != null ? `Ciclo ${cycleIndex}` : "Inicio"}: {phaseTitle(phase)}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Todas las fases dentro del tiempo configurado.
+        </p>
+      )}
+    </div>
+  );
+}
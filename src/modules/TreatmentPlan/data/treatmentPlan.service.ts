@@ -0,0 +1,36 @@
+// src/modules/TreatmentPlan/data/treatmentPlan.service.ts
+import axios from "@/lib/axios";
+import type {
+  CreateTreatmentPlanDto,
+  PlanStatus,
+  PlanTreatment,
+  TreatmentPlan,
+} from "../treatmentPlan.interface";
+
+export const treatmentPlanService = {
+  /** Planes prescritos a un paciente (activos y cerrados) */
+  findByPatient: async (patientId: string): Promise<TreatmentPlan[]> => {
+    const res = await axios.get(`/doctor/patients/${patientId}/plans`);
+    return res.data;
+  },
+
+  /** Prescribe un plan nuevo para el paciente */
+  create: async (data: CreateTreatmentPlanDto): Promise<TreatmentPlan> => {
+    const res = await axios.post(`/doctor/patients/${data.patientId}/plans`, data);
+    return res.data;
+  },
+
+  /** Cierra (COMPLETED / CANCELLED) o reactiva un plan */
+  updateStatus: async (id: string, status: PlanStatus): Promise<TreatmentPlan> => {
+    const res = await axios.patch(`/doctor/plans/${id}/status`, { status });
+    return res.data;
+  },
+
+  /** Tratamientos del paciente; cada uno indica su planId si se inicio desde un plan */
+  findTreatments: async (patientId: string): Promise<PlanTreatment[]> => {
+    const res = await axios.get("/doctor/treatments/history", {
+      params: { patientId },
+    });
+    return (res.data as PlanTreatment[]).filter((t) => t.patientId === patientId);
+  },
+};
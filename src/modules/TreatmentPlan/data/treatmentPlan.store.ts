@@ -0,0 +1,75 @@
+// src/modules/TreatmentPlan/data/treatmentPlan.store.ts
+import { create } from "zustand";
+import { toast } from "sonner";
+import { treatmentPlanService } from "./treatmentPlan.service";
+import type {
+  CreateTreatmentPlanDto,
+  PlanStatus,
+  PlanTreatment,
+  TreatmentPlan,
+} from "../treatmentPlan.interface";
+
+interface TreatmentPlanState {
+  patientId: string | null;
+  plans: TreatmentPlan[];
+  treatments: PlanTreatment[];
+  isLoading: boolean;
+  error: string | null;
+
+  /** Carga planes y tratamientos del paciente (para calcular la adherencia) */
+  fetchByPatient: (patientId: string) => Promise<void>;
+  create: (payload: CreateTreatmentPlanDto) => Promise<boolean>;
+  changeStatus: (id: string, status: PlanStatus) => Promise<void>;
+}
+
+export const treatmentPlanStore = create<TreatmentPlanState>((set, get) => ({
+  patientId: null,
+  plans: [],
+  treatments: [],
+  isLoading: false,
+  error: null,
+
+  fetchByPatient: async (patientId) => {
+    // Al cambiar de paciente no se muestran los planes del anterior
+    if (get().patientId !== patientId) set({ plans: [], treatments: [] });
+    set({ patientId, isLoading: true, error: null });
+    try {
+      const [plans, treatments] = await Promise.all([
+        treatmentPlanService.findByPatient(patientId),
+        treatmentPlanService.findTreatments(patientId),
+      ]);
+      if (get().patientId !== patientId) return; // llego tarde: ya se eligio otro
+      plans.sort((a, b) => b.startDate.localeCompare(a.startDate));
+      set({ plans, treatments, isLoading: false });
+    } catch (e) {
+      console.error(e);
+      set({
+        isLoading: false,
+        error: e instanceof Error ? e.message : "No se pudieron cargar los planes",
+      });
+    }
+  },
+
+  create: async (payload) => {
+    try {
+      await treatmentPlanService.create(payload);
+      toast.success("Plan prescrito");
+      await get().fetchByPatient(payload.patientId);
+      return true;
+    } catch (e) {
+      console.error(e);
+      toast.error("No se pudo crear el plan");
+      return false;
+    }
+  },
+
+  changeStatus: async (id, status) => {
+    try {
+      const updated = await treatmentPlanService.updateStatus(id, status);
+      set({ plans: get().plans.map((p) => (p.id === id ? { ...p, ...updated } : p)) });
+    } catch (e) {
+      console.error(e);
+      toast.error("No se pudo actualizar el plan");
+    }
+  },
+}));
@@ -0,0 +1,125 @@
+// src/modules/TreatmentPlan/treatmentPlan.adherence.ts
+import type { PlanTreatment, TreatmentPlan } from "./treatmentPlan.interface";
+
+/**
+ * Adherencia de un plan: sesiones entregadas frente a las prescritas. Solo
+ * cuentan los tratamientos completados; los abortados quedan aparte y el que
+ * esta en curso se muestra sin sumarse todavia.
+ */
+
+export interface PlanDay {
+  date: string; // YYYY-MM-DD
+  delivered: number;
+  prescribed: number;
+}
+
+export interface PlanAdherence {
+  prescribed: number; // total de la pauta
+  expectedToDate: number; // las que ya deberian estar hechas hoy
+  delivered: number;
+  aborted: number;
+  running: boolean;
+  percent: number; // entregadas / esperadas a la fecha (0-100)
+  progress: number; // entregadas / total (0-100)
+  endDate: string;
+  finished: boolean; // ya paso el ultimo dia de la pauta
+  days: PlanDay[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(date: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function formatDay(date: Date) {
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+// Dia de la pauta (desde 0) en que cae una fecha; redondeo por cambios de horario
+function dayIndex(start: Date, at: Date) {
+  const day = new Date(at.getFullYear(), at.getMonth(), at.getDate());
+  return Math.round((day.getTime() - start.getTime()) / DAY_MS);
+}
+
+export function planTreatments(plan: TreatmentPlan, treatments: PlanTreatment[]) {
+  return treatments.filter((t) => t.planId === plan.id);
+}
+
+export function planAdherence(
+  plan: TreatmentPlan,
+  treatments: PlanTreatment[],
+  now = new Date(),
+): PlanAdherence {
+  const start = parseDay(plan.startDate);
+  const prescribed = plan.sessionsPerDay * plan.durationDays;
+  const today = dayIndex(start, now);
+  const linked = planTreatments(plan, treatments);
+
+  const days: PlanDay[] = Array.from({ length: plan.durationDays }, (_, i) => ({
+    date: formatDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i)),
+    delivered: 0,
+    prescribed: plan.sessionsPerDay,
+  }));
+
+  let delivered = 0;
+  for (const treatment of linked) {
+    if (treatment.status !== "completed") continue;
+    delivered += 1;
+    const idx = dayIndex(start, new Date(treatment.startedAt));
+    if (idx >= 0 && idx < days.length) days[idx].delivered += 1;
+  }
+
+  // El dia en curso se cuenta como esperado solo por lo ya entregado:
+  // no penaliza las sesiones que todavia pueden darse hoy
+  const pastDays = Math.min(Math.max(today, 0), plan.durationDays);
+  const todayDelivered = today >= 0 && today < days.length ? days[today].delivered : 0;
+  const expectedToDate = Math.min(
+    prescribed,
+    pastDays * plan.sessionsPerDay + Math.min(todayDelivered, plan.sessionsPerDay),
+  );
+
+  return {
+    prescribed,
+    expectedToDate,
+    delivered,
+    aborted: linked.filter((t) => t.status === "aborted").length,
+    running: linked.some((t) => t.status === "running"),
+    percent: expectedToDate === 0 ? 100 : Math.min(100, Math.round((delivered / expectedToDate) * 100)),
+    progress: prescribed === 0 ? 0 : Math.min(100, Math.round((delivered / prescribed) * 100)),
+    endDate: days.at(-1)?.date ?? plan.startDate,
+    finished: today >= plan.durationDays,
+    days,
+  };
+}
+
+/** "Media intensidad · 2 veces al dia · 14 dias" */
+export function describePlan(plan: TreatmentPlan) {
+  const intensity =
+    plan.intensity === "custom" && plan.customConfig
+      ? `Custom ${plan.customConfig.targetPressureKpa} kPa / ${plan.customConfig.holdTimeSeconds}s / ${plan.customConfig.releaseTimeSeconds}s / ${plan.customConfig.cycleTarget} ciclos`
+      : PLAN_INTENSITY_LABEL[plan.intensity];
+  const frequency = plan.sessionsPerDay === 1 ? "1 vez al dia" : `${plan.sessionsPerDay} veces al dia`;
+  return `${intensity} · ${frequency} · ${plan.durationDays} dias`;
+}
+
+export const PLAN_INTENSITY_LABEL: Record<TreatmentPlan["intensity"], string> = {
+  low: "Baja intensidad",
+  medium: "Media intensidad",
+  high: "Alta intensidad",
+  custom: "Custom",
+};
+
+export const PLAN_ZONE_LABEL: Record<TreatmentPlan["treatmentZone"], string> = {
+  pantorrilla_izquierda: "Pantorrilla izquierda",
+  pantorrilla_derecha: "Pantorrilla derecha",
+};
+
+export const PLAN_STATUS_LABEL: Record<TreatmentPlan["status"], string> = {
+  ACTIVE: "Activo",
+  COMPLETED: "Completado",
+  CANCELLED: "Cancelado",
+};
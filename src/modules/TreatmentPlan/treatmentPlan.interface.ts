@@ -0,0 +1,39 @@
+// src/modules/TreatmentPlan/treatmentPlan.interface.ts
+
+// Pauta prescrita: "media intensidad, pantorrilla izquierda, 2 veces al dia por 14 dias"
+export type PlanIntensity = "low" | "medium" | "high" | "custom";
+export type PlanZone = "pantorrilla_izquierda" | "pantorrilla_derecha";
+export type PlanStatus = "ACTIVE" | "COMPLETED" | "CANCELLED";
+
+export interface PlanCustomConfig {
+  targetPressureKpa: number;
+  holdTimeSeconds: number;
+  releaseTimeSeconds: number;
+  cycleTarget: number;
+}
+
+export interface TreatmentPlan {
+  id: string;
+  patientId: string;
+  treatmentZone: PlanZone;
+  intensity: PlanIntensity;
+  customConfig?: PlanCustomConfig | null; // solo con intensity "custom"
+  sessionsPerDay: number;
+  durationDays: number;
+  startDate: string; // YYYY-MM-DD (dia local del primer dia de la pauta)
+  notes?: string | null;
+  status: PlanStatus;
+  createdAt: string;
+}
+
+export type CreateTreatmentPlanDto = Omit<TreatmentPlan, "id" | "status" | "createdAt">;
+
+// Tratamiento del historial, con el plan al que pertenece
+export interface PlanTreatment {
+  id: string;
+  patientId: string;
+  planId?: string | null;
+  status: string; // running | completed | aborted
+  startedAt: string;
+  endedAt: string | null;
+}
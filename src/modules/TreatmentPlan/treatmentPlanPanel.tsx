@@ -0,0 +1,242 @@
+// src/modules/TreatmentPlan/treatmentPlanPanel.tsx
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { treatmentPlanStore } from "./data/treatmentPlan.store";
+import {
+  PLAN_INTENSITY_LABEL,
+  PLAN_STATUS_LABEL,
+  PLAN_ZONE_LABEL,
+  describePlan,
+  formatDay,
+  planAdherence,
+  type PlanAdherence,
+} from "./treatmentPlan.adherence";
+import type {
+  PlanCustomConfig,
+  PlanIntensity,
+  PlanZone,
+  TreatmentPlan,
+} from "./treatmentPlan.interface";
+
+const DEFAULT_CUSTOM: PlanCustomConfig = {
+  targetPressureKpa: 5,
+  holdTimeSeconds: 10,
+  releaseTimeSeconds: 5,
+  cycleTarget: 25,
+};
+
+function dayClass(delivered: number, prescribed: number, past: boolean) {
+  if (delivered >= prescribed) return "bg-emerald-500";
+  if (delivered > 0) return "bg-amber-500";
+  return past ? "bg-red-500/70" : "bg-muted";
+}
+
+function PlanDays({ adherence }: { adherence: PlanAdherence }) {
+  const today = formatDay(new Date());
+  return (
+    <div className="flex flex-wrap gap-1">
+      {adherence.days.map((day) => (
+        <span
+          key={day.date}
+          title={`${day.date}: ${day.delivered}/${day.prescribed}`}
+          className={
+            `h-3 w-3 rounded-sm ${dayClass(day.delivered, day.prescribed, day.date < today)} ` +
+            (day.date === today ? "ring-2 ring-cyan-400" : "")
+          }
+        />
+      ))}
+    </div>
+  );
+}
+
+function PlanCard({ plan }: { plan: TreatmentPlan }) {
+  const treatments = treatmentPlanStore((s) => s.treatments);
+  const changeStatus = treatmentPlanStore((s) => s.changeStatus);
+  const adherence = useMemo(() => planAdherence(plan, treatments), [plan, treatments]);
+  const lagging = plan.status === "ACTIVE" && adherence.percent < 80;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{PLAN_ZONE_LABEL[plan.treatmentZone]}</p>
+          <p className="text-xs text-muted-foreground">{describePlan(plan)}</p>
+          <p className="text-xs text-muted-foreground">
+            {plan.startDate} a {adherence.endDate}
+          </p>
+        </div>
+        <span className="rounded-full bg-muted px-2 py-1 text-xs">{PLAN_STATUS_LABEL[plan.status]}</span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs">
+          <span>
+            Sesiones {adherence.delivered} / {adherence.prescribed}
+            {adherence.running ? " (una en curso)" : ""}
+          </span>
+          <span className={lagging ? "text-amber-500" : "text-muted-foreground"}>
+            Adherencia {adherence.percent}% ({adherence.delivered}/{adherence.expectedToDate} a la fecha)
+          </span>
+        </div>
+        <Progress value={adherence.progress} />
+      </div>
+
+      <PlanDays adherence={adherence} />
+      {adherence.aborted > 0 && (
+        <p className="text-xs text-muted-foreground">{adherence.aborted} sesion(es) abortada(s) no cuentan.</p>
+      )}
+      {plan.notes && <p className="text-xs text-muted-foreground">{plan.notes}</p>}
+
+      {plan.status === "ACTIVE" ? (
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => void changeStatus(plan.id, "COMPLETED")}>
+            Marcar completado
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => void changeStatus(plan.id, "CANCELLED")}>
+            Cancelar plan
+          </Button>
+        </div>
+      ) : (
+        !adherence.finished && (
+          <Button size="sm" variant="outline" onClick={() => void changeStatus(plan.id, "ACTIVE")}>
+            Reactivar
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
+
+function PlanForm({ patientId }: { patientId: string }) {
+  const create = treatmentPlanStore((s) => s.create);
+  const [treatmentZone, setTreatmentZone] = useState<PlanZone | "">("");
+  const [intensity, setIntensity] = useState<PlanIntensity>("medium");
+  const [customConfig, setCustomConfig] = useState(DEFAULT_CUSTOM);
+  const [sessionsPerDay, setSessionsPerDay] = useState("2");
+  const [durationDays, setDurationDays] = useState("14");
+  const [startDate, setStartDate] = useState(() => formatDay(new Date()));
+  const [notes, setNotes] = useState("");
+
+  const perDay = Number(sessionsPerDay);
+  const days = Number(durationDays);
+  const valid =
+    treatmentZone !== "" &&
+    Number.isInteger(perDay) && perDay >= 1 && perDay <= 6 &&
+    Number.isInteger(days) && days >= 1 && days <= 180 &&
+    startDate !== "";
+
+  const submit = async () => {
+    if (!valid) return;
+    const ok = await create({
+      patientId,
+      treatmentZone,
+      intensity,
+      customConfig: intensity === "custom" ? customConfig : null,
+      sessionsPerDay: perDay,
+      durationDays: days,
+      startDate,
+      notes: notes.trim() || null,
+    });
+    if (ok) setNotes("");
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-3">
+      <p className="text-sm font-medium">Nuevo plan</p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <select
+          className="h-10 rounded-md border bg-background px-3"
+          value={treatmentZone}
+          onChange={(e) => setTreatmentZone(e.target.value as PlanZone | "")}
+        >
+          <option value="">Zona</option>
+          {Object.entries(PLAN_ZONE_LABEL).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <select
+          className="h-10 rounded-md border bg-background px-3"
+          value={intensity}
+          onChange={(e) => setIntensity(e.target.value as PlanIntensity)}
+        >
+          {Object.entries(PLAN_INTENSITY_LABEL).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {intensity === "custom" && (
+        <div className="grid gap-2 sm:grid-cols-4">
+          {(
+            [
+              ["targetPressureKpa", "kPa"],
+              ["holdTimeSeconds", "Hold (s)"],
+              ["releaseTimeSeconds", "Release (s)"],
+              ["cycleTarget", "Ciclos"],
+            ] as Array<[keyof PlanCustomConfig, string]>
+          ).map(([key, label]) => (
+            <label key={key} className="space-y-1 text-xs text-muted-foreground">
+              <span>{label}</span>
+              <Input
+                type="number"
+                min={1}
+                value={customConfig[key]}
+                onChange={(e) =>
+                  setCustomConfig((current) => ({ ...current, [key]: Number(e.target.value) }))
+                }
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Sesiones por dia</span>
+          <Input type="number" min={1} max={6} value={sessionsPerDay} onChange={(e) => setSessionsPerDay(e.target.value)} />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Dias</span>
+          <Input type="number" min={1} max={180} value={durationDays} onChange={(e) => setDurationDays(e.target.value)} />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Inicio</span>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </label>
+      </div>
+      <Input placeholder="Indicaciones (opcional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+      <Button className="w-full" disabled={!valid} onClick={() => void submit()}>
+        Prescribir plan
+      </Button>
+    </div>
+  );
+}
+
+/** Planes del paciente con su adherencia; se muestra en la ficha del paciente */
+export function TreatmentPlanPanel({ patientId }: { patientId: string }) {
+  const { plans, isLoading, error, fetchByPatient } = treatmentPlanStore();
+
+  useEffect(() => {
+    void fetchByPatient(patientId);
+  }, [patientId, fetchByPatient]);
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>Planes de tratamiento</CardTitle></CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {isLoading && !plans.length && <p className="text-sm text-muted-foreground">Cargando planes...</p>}
+        {!isLoading && !error && !plans.length && (
+          <p className="text-sm text-muted-foreground">Sin planes prescritos.</p>
+        )}
+        {plans.map((plan) => (
+          <PlanCard key={plan.id} plan={plan} />
+        ))}
+        <PlanForm patientId={patientId} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -37,6 +37,29 @@ export const VITAL_SIGNS_RANGES = {
   },
 } as const;
 
+// Límites absolutos de la banda de compresión (vigilancia en el navegador)
+export const COMPRESSION_SAFETY_LIMITS = {
+  PRESSURE_KPA: {
+    MAX: 45, // nunca se supera, sea cual sea el protocolo
+    TARGET_RATIO: 1.25, // límite por sesión: objetivo + 25 %
+    TARGET_MARGIN: 3, // ...o al menos objetivo + 3 kPa
+  },
+  TEMPERATURE_C: {
+    MAX: 41,
+  },
+  CONSECUTIVE_READINGS: 3, // lecturas seguidas fuera de rango para disparar
+} as const;
+
+// Ajuste de la banda: fuga durante MANTIENE y re-inflados para llegar al objetivo
+export const BAND_FIT_LIMITS = {
+  MAX_HOLD_DECAY_KPA_PER_S: 0.2, // caída máxima tolerada en el mantenimiento
+  MIN_HOLD_MS: 3000, // mantenimiento mínimo antes de medir la caída (filtra el ruido)
+  MAX_REINFLATIONS: 2, // re-inflados por ciclo antes de avisar
+  CYCLES_FOR_SESSION: 3, // ciclos marcados para avisar de la sesión completa
+  HOLD_RATIO: 0.9, // sin estado del equipo: "mantiene" desde el 90 % del objetivo
+  REST_RATIO: 0.25, // ...y el ciclo termina por debajo del 25 %
+} as const;
+
 export const RELATIONSHIPS = [
   "spouse",
   "parent",